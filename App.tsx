@@ -1,14 +1,23 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { View } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import ErrorBoundary from './src/components/ErrorBoundary';
+import { ToastHost } from './src/components/ToastHost';
+import { outbox } from './src/services/outbox';
 
 export default function App() {
+  useEffect(() => {
+    // Replay changes queued while offline whenever connectivity returns
+    outbox.start();
+    return () => outbox.stop();
+  }, []);
+
   return (
     <ErrorBoundary>
       <View style={{ flex: 1 }}>
         <AppNavigator />
+        <ToastHost />
         <StatusBar style="light" />
       </View>
     </ErrorBoundary>
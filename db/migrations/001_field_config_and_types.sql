@@ -0,0 +1,45 @@
+-- Field settings and the field types added after text, multiline, multiple choice, location and image
+-- Run against the schema PostgREST exposes, then reload PostgREST's schema cache (last statement)
+
+BEGIN;
+
+-- Type-specific settings (date limits, selection counts, number settings, expected barcodes);
+-- NULL for fields without any
+ALTER TABLE field ADD COLUMN IF NOT EXISTS config jsonb;
+
+-- Replace whichever check constraint limits field_type with one allowing every type the app offers
+DO $$
+DECLARE
+  constraint_name text;
+BEGIN
+  FOR constraint_name IN
+    SELECT conname
+    FROM pg_constraint
+    WHERE conrelid = 'field'::regclass
+      AND contype = 'c'
+      AND pg_get_constraintdef(oid) LIKE '%field_type%'
+  LOOP
+    EXECUTE format('ALTER TABLE field DROP CONSTRAINT %I', constraint_name);
+  END LOOP;
+END $$;
+
+ALTER TABLE field ADD CONSTRAINT field_field_type_check CHECK (
+  field_type IN (
+    'text',
+    'multiline',
+    'multiple choice',
+    'location',
+    'image',
+    'date',
+    'time',
+    'datetime',
+    'checkboxes',
+    'number',
+    'boolean',
+    'barcode'
+  )
+);
+
+COMMIT;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,22 @@
+-- Moves a record answer from one key of "values" to another when a field is renamed
+-- Only that key changes, so edits saved to the same records meanwhile are kept.
+-- Records that already hold an answer under the new key are left alone rather than overwritten.
+-- Returns the ids of the records that were changed; runs with the caller's permissions
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION rename_value_key(record_ids bigint[], old_key text, new_key text)
+RETURNS TABLE (moved_id bigint)
+LANGUAGE sql
+AS $$
+  UPDATE record
+  SET "values" = (record."values" - old_key) || jsonb_build_object(new_key, record."values" -> old_key)
+  WHERE record.id = ANY(record_ids)
+    AND record."values" ? old_key
+    AND NOT record."values" ? new_key
+  RETURNING record.id;
+$$;
+
+COMMIT;
+
+NOTIFY pgrst, 'reload schema';
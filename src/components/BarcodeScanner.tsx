@@ -0,0 +1,138 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { CameraView, BarcodeScanningResult, useCameraPermissions } from 'expo-camera';
+import { BarcodeValue } from '../types';
+import { Button } from './Button';
+import { colors, borderRadius, typography, spacing } from '../theme';
+
+interface BarcodeScannerProps {
+  visible: boolean;
+  /** Called once with the first code read; the scanner stays open until the caller hides it */
+  onScanned: (value: BarcodeValue) => void;
+  onClose: () => void;
+  title?: string;
+}
+
+/**
+ * Full-screen camera that reads barcodes and QR codes
+ * Asks for camera permission when first opened
+ */
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({
+  visible,
+  onScanned,
+  onClose,
+  title = 'Scan a barcode',
+}) => {
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera reports the same code many times a second; only the first read counts
+  const scanned = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    scanned.current = false;
+    if (permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible, permission, requestPermission]);
+
+  const handleScanned = ({ data, type }: BarcodeScanningResult) => {
+    if (scanned.current || !data) return;
+    scanned.current = true;
+    onScanned({ text: data, symbology: type });
+  };
+
+  const renderBody = () => {
+    if (!permission) return null;
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.message}>
+          <Text style={styles.messageText}>Camera permission is required to scan codes</Text>
+          {permission.canAskAgain && (
+            <Button title="Allow Camera" onPress={requestPermission} variant="primary" />
+          )}
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          onBarcodeScanned={visible ? handleScanned : undefined}
+        />
+        <View style={styles.frame} pointerEvents="none" />
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {renderBody()}
+        <View style={styles.header}>
+          <Text style={styles.title}>{title}</Text>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose} activeOpacity={0.8}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.backgroundDark,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    position: 'absolute',
+    top: spacing.xxl,
+    left: spacing.lg,
+    right: spacing.lg,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: typography.h4,
+    fontWeight: typography.semibold,
+    color: colors.text,
+  },
+  closeButton: {
+    width: 44,
+    height: 44,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.card,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: typography.h3,
+    color: colors.primary,
+    fontWeight: typography.bold,
+  },
+  frame: {
+    width: '70%',
+    aspectRatio: 1.6,
+    borderWidth: 2,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.lg,
+  },
+  message: {
+    padding: spacing.lg,
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  messageText: {
+    fontSize: typography.body,
+    color: colors.text,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerAndroid, DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { colors, borderRadius, typography, spacing } from '../theme';
+import { TemporalType, formatTemporal, parseTemporal, toTemporalValue } from '../utils/dates';
+
+interface DateTimeInputProps {
+  label?: string;
+  type: TemporalType;
+  /** Stored ISO 8601 value, or empty when nothing is picked */
+  value?: string;
+  /** Called with the stored form of the picked value, or null when cleared */
+  onChange: (value: string | null) => void;
+  minimumDate?: Date;
+  maximumDate?: Date;
+  error?: string;
+}
+
+/**
+ * Field that opens the platform's date or time picker
+ * Android shows the picker as a dialog (a date then a time dialog for date-times);
+ * iOS shows it inline below the field
+ */
+export const DateTimeInput: React.FC<DateTimeInputProps> = ({
+  label,
+  type,
+  value,
+  onChange,
+  minimumDate,
+  maximumDate,
+  error,
+}) => {
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const current = (value && parseTemporal(value, type)) || new Date();
+
+  const openAndroid = () => {
+    DateTimePickerAndroid.open({
+      value: current,
+      mode: type === 'time' ? 'time' : 'date',
+      minimumDate,
+      maximumDate,
+      onChange: (event: DateTimePickerEvent, date?: Date) => {
+        if (event.type !== 'set' || !date) return;
+        if (type !== 'datetime') {
+          onChange(toTemporalValue(date, type));
+          return;
+        }
+        DateTimePickerAndroid.open({
+          value: date,
+          mode: 'time',
+          onChange: (timeEvent: DateTimePickerEvent, time?: Date) => {
+            if (timeEvent.type !== 'set' || !time) return;
+            const picked = new Date(date);
+            picked.setHours(time.getHours(), time.getMinutes(), 0, 0);
+            onChange(toTemporalValue(picked, type));
+          },
+        });
+      },
+    });
+  };
+
+  const handleIOSChange = (_event: DateTimePickerEvent, date?: Date) => {
+    if (date) onChange(toTemporalValue(date, type));
+  };
+
+  const placeholder = type === 'time' ? 'Select time' : type === 'date' ? 'Select date' : 'Select date and time';
+
+  return (
+    <View style={styles.container}>
+      {label && <Text style={styles.label}>{label}</Text>}
+      <View style={[styles.field, error ? styles.fieldError : null]}>
+        <TouchableOpacity
+          style={styles.valueButton}
+          onPress={() => (Platform.OS === 'android' ? openAndroid() : setPickerVisible(!pickerVisible))}
+        >
+          <Text style={value ? styles.value : styles.placeholder}>
+            {value ? formatTemporal(value, type) : placeholder}
+          </Text>
+        </TouchableOpacity>
+        {value ? (
+          <TouchableOpacity onPress={() => onChange(null)} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Text style={styles.clear}>Clear</Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+
+      {Platform.OS === 'ios' && pickerVisible && (
+        <View style={styles.picker}>
+          <DateTimePicker
+            value={current}
+            mode={type}
+            display={type === 'time' ? 'spinner' : 'inline'}
+            minimumDate={minimumDate}
+            maximumDate={maximumDate}
+            onChange={handleIOSChange}
+            themeVariant="dark"
+          />
+          <TouchableOpacity
+            style={styles.doneButton}
+            onPress={() => {
+              // Confirming without moving the picker keeps the date it shows
+              if (!value) onChange(toTemporalValue(current, type));
+              setPickerVisible(false);
+            }}
+          >
+            <Text style={styles.done}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {error && <Text style={styles.error}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.glassDark,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+  },
+  fieldError: {
+    borderColor: colors.error,
+  },
+  valueButton: {
+    flex: 1,
+    paddingVertical: spacing.md,
+  },
+  value: {
+    fontSize: typography.body,
+    color: colors.text,
+  },
+  placeholder: {
+    fontSize: typography.body,
+    color: colors.textTertiary,
+  },
+  clear: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.semibold,
+    color: colors.primary,
+  },
+  picker: {
+    marginTop: spacing.sm,
+    backgroundColor: colors.backgroundLight,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+  },
+  doneButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  done: {
+    fontSize: typography.body,
+    fontWeight: typography.bold,
+    color: colors.primary,
+  },
+  error: {
+    fontSize: typography.caption,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+});
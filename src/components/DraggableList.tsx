@@ -0,0 +1,169 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, Animated, PanResponder, LayoutChangeEvent } from 'react-native';
+import { colors, spacing, typography } from '../theme';
+
+interface DraggableListProps<T> {
+  data: T[];
+  keyExtractor: (item: T) => string;
+  /** Render a row; place the provided handle wherever the row should be grabbed */
+  renderItem: (item: T, handle: React.ReactElement, isActive: boolean) => React.ReactNode;
+  /** Called with the items in their new order after a drop */
+  onReorder: (data: T[]) => void;
+  /** Notified when a drag starts/ends, e.g. to lock the parent ScrollView */
+  onDragStateChange?: (dragging: boolean) => void;
+}
+
+/**
+ * Vertical list whose rows can be reordered by dragging their handle
+ * Rows may have different heights; they are measured on layout
+ */
+export function DraggableList<T>({
+  data,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  onDragStateChange,
+}: DraggableListProps<T>) {
+  const heights = useRef<number[]>([]);
+  const dragY = useRef(new Animated.Value(0)).current;
+  const activeRef = useRef<number | null>(null);
+  const hoverRef = useRef<number | null>(null);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  /**
+   * Find the row under the centre of the dragged row
+   */
+  const getHoverIndex = (from: number, dy: number): number => {
+    const offsets: number[] = [];
+    let total = 0;
+    data.forEach((_, index) => {
+      offsets.push(total);
+      total += heights.current[index] || 0;
+    });
+
+    const center = offsets[from] + (heights.current[from] || 0) / 2 + dy;
+
+    for (let index = 0; index < data.length; index++) {
+      if (center < offsets[index] + (heights.current[index] || 0)) {
+        return index;
+      }
+    }
+    return data.length - 1;
+  };
+
+  const finishDrag = () => {
+    const from = activeRef.current;
+    const to = hoverRef.current;
+
+    activeRef.current = null;
+    hoverRef.current = null;
+    setActiveIndex(null);
+    setHoverIndex(null);
+    dragY.setValue(0);
+    onDragStateChange?.(false);
+
+    if (from !== null && to !== null && from !== to) {
+      const reordered = [...data];
+      const [moved] = reordered.splice(from, 1);
+      reordered.splice(to, 0, moved);
+      onReorder(reordered);
+    }
+  };
+
+  const responders = useMemo(
+    () =>
+      data.map((_, index) =>
+        PanResponder.create({
+          onStartShouldSetPanResponder: () => true,
+          onMoveShouldSetPanResponder: () => true,
+          onPanResponderTerminationRequest: () => false,
+          onPanResponderGrant: () => {
+            activeRef.current = index;
+            hoverRef.current = index;
+            dragY.setValue(0);
+            setActiveIndex(index);
+            setHoverIndex(index);
+            onDragStateChange?.(true);
+          },
+          onPanResponderMove: (_, gesture) => {
+            dragY.setValue(gesture.dy);
+            const next = getHoverIndex(index, gesture.dy);
+            if (next !== hoverRef.current) {
+              hoverRef.current = next;
+              setHoverIndex(next);
+            }
+          },
+          onPanResponderRelease: finishDrag,
+          onPanResponderTerminate: finishDrag,
+        })
+      ),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [data]
+  );
+
+  /**
+   * Rows between the original and hovered position slide out of the way
+   */
+  const getShift = (index: number): number => {
+    if (activeIndex === null || hoverIndex === null || index === activeIndex) return 0;
+    const activeHeight = heights.current[activeIndex] || 0;
+
+    if (activeIndex < hoverIndex && index > activeIndex && index <= hoverIndex) {
+      return -activeHeight;
+    }
+    if (activeIndex > hoverIndex && index >= hoverIndex && index < activeIndex) {
+      return activeHeight;
+    }
+    return 0;
+  };
+
+  return (
+    <View>
+      {data.map((item, index) => {
+        const isActive = index === activeIndex;
+        const handle = (
+          <View {...responders[index].panHandlers} style={styles.handle} hitSlop={8}>
+            <Text style={styles.handleIcon}>☰</Text>
+          </View>
+        );
+
+        return (
+          <Animated.View
+            key={keyExtractor(item)}
+            onLayout={(event: LayoutChangeEvent) => {
+              heights.current[index] = event.nativeEvent.layout.height;
+            }}
+            style={[
+              isActive && styles.activeRow,
+              { transform: [{ translateY: isActive ? dragY : getShift(index) }] },
+            ]}
+          >
+            {renderItem(item, handle, isActive)}
+          </Animated.View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  handle: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    marginRight: spacing.xs,
+  },
+  handleIcon: {
+    fontSize: typography.h4,
+    color: colors.textTertiary,
+  },
+  activeRow: {
+    zIndex: 10,
+    elevation: 10,
+    backgroundColor: colors.backgroundLight,
+    shadowColor: colors.primary,
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.4,
+    shadowRadius: 12,
+  },
+});
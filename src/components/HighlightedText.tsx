@@ -0,0 +1,41 @@
+import React from 'react';
+import { Text, StyleSheet, TextStyle, StyleProp } from 'react-native';
+import { colors, typography } from '../theme';
+import { highlightSegments } from '../utils/textSearch';
+
+interface HighlightedTextProps {
+  text: string;
+  /** Search term whose matches are highlighted */
+  term: string;
+  style?: StyleProp<TextStyle>;
+  highlightStyle?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  term,
+  style,
+  highlightStyle,
+  numberOfLines,
+}) => (
+  <Text style={style} numberOfLines={numberOfLines}>
+    {highlightSegments(text, term).map((segment, index) =>
+      segment.match ? (
+        <Text key={index} style={[styles.highlight, highlightStyle]}>
+          {segment.text}
+        </Text>
+      ) : (
+        segment.text
+      )
+    )}
+  </Text>
+);
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: colors.primary + '30',
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
+});
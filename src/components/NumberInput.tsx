@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, TextInput, StyleSheet, TouchableOpacity } from 'react-native';
+import Slider from '@react-native-community/slider';
+import { FieldConfig } from '../types';
+import { Input } from './Input';
+import { colors, borderRadius, typography, spacing } from '../theme';
+import { clampNumber, formatNumber, parseNumber, stepNumber, toPlainNumber } from '../utils/numbers';
+
+interface NumberInputProps {
+  label?: string;
+  /** Number as typed; parsed when the record is saved */
+  value: string;
+  onChangeText: (text: string) => void;
+  config?: FieldConfig;
+  placeholder?: string;
+  error?: string;
+}
+
+/**
+ * Input for number fields, typed on the keyboard or adjusted with a stepper or slider as the field asks
+ * The slider needs both limits, so fields without them are typed instead
+ */
+export const NumberInput: React.FC<NumberInputProps> = ({
+  label,
+  value,
+  onChangeText,
+  config = {},
+  placeholder,
+  error,
+}) => {
+  const { min, max, step, decimals, unit, numberInput } = config;
+  const keyboardType = decimals === 0 ? 'number-pad' : 'numbers-and-punctuation';
+  const title = label && unit ? `${label} (${unit})` : label;
+
+  if (numberInput === 'slider' && min !== undefined && max !== undefined) {
+    const current = clampNumber(parseNumber(value) ?? min, config);
+    return (
+      <View style={styles.container}>
+        {label && (
+          <View style={styles.sliderHeader}>
+            <Text style={styles.label}>{label}</Text>
+            <Text style={styles.sliderValue}>{value ? formatNumber(current, config) : '—'}</Text>
+          </View>
+        )}
+        <Slider
+          value={current}
+          minimumValue={min}
+          maximumValue={max}
+          step={step || (decimals !== undefined ? 10 ** -decimals : 0)}
+          onValueChange={(next: number) => onChangeText(toPlainNumber(next, config))}
+          minimumTrackTintColor={colors.primary}
+          maximumTrackTintColor={colors.border}
+          thumbTintColor={colors.primary}
+        />
+        <View style={styles.sliderLimits}>
+          <Text style={styles.limit}>{formatNumber(min, config)}</Text>
+          <Text style={styles.limit}>{formatNumber(max, config)}</Text>
+        </View>
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    );
+  }
+
+  if (numberInput === 'stepper') {
+    const adjust = (direction: 1 | -1) => {
+      const current = parseNumber(value);
+      const start = current ?? (direction === 1 ? min ?? 0 : max ?? 0);
+      onChangeText(toPlainNumber(current === null ? clampNumber(start, config) : stepNumber(start, direction, config), config));
+    };
+
+    return (
+      <View style={styles.container}>
+        {title && <Text style={styles.label}>{title}</Text>}
+        <View style={[styles.stepper, error ? styles.stepperError : null]}>
+          <TouchableOpacity style={styles.stepButton} onPress={() => adjust(-1)}>
+            <Text style={styles.stepText}>−</Text>
+          </TouchableOpacity>
+          <TextInput
+            value={value}
+            onChangeText={onChangeText}
+            placeholder={placeholder}
+            placeholderTextColor={colors.textTertiary}
+            keyboardType={keyboardType}
+            style={styles.stepperInput}
+            textAlign="center"
+          />
+          <TouchableOpacity style={styles.stepButton} onPress={() => adjust(1)}>
+            <Text style={styles.stepText}>+</Text>
+          </TouchableOpacity>
+        </View>
+        {error && <Text style={styles.error}>{error}</Text>}
+      </View>
+    );
+  }
+
+  return (
+    <Input
+      label={title}
+      value={value}
+      onChangeText={onChangeText}
+      placeholder={placeholder}
+      keyboardType={keyboardType}
+      error={error}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  sliderHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  sliderValue: {
+    fontSize: typography.body,
+    fontWeight: typography.semibold,
+    color: colors.primary,
+  },
+  sliderLimits: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  limit: {
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.glassDark,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+  },
+  stepperError: {
+    borderColor: colors.error,
+  },
+  stepButton: {
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.lg,
+  },
+  stepText: {
+    fontSize: typography.h3,
+    fontWeight: typography.bold,
+    color: colors.primary,
+  },
+  stepperInput: {
+    flex: 1,
+    paddingVertical: spacing.md,
+    fontSize: typography.body,
+    color: colors.text,
+  },
+  error: {
+    fontSize: typography.caption,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+});
@@ -0,0 +1,76 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Platform } from 'react-native';
+import { animated, useSpring } from '@react-spring/native';
+import { toast, ToastMessage } from '../services/toast';
+import { colors, spacing, typography, borderRadius } from '../theme';
+
+const AnimatedView = animated(View);
+
+/**
+ * Shows the current toast above every screen; rendered once at the root of the app
+ */
+export const ToastHost: React.FC = () => {
+  const [current, setCurrent] = useState<ToastMessage | null>(null);
+
+  useEffect(() => toast.subscribe(setCurrent), []);
+
+  const springProps = useSpring({
+    opacity: current ? 1 : 0,
+    translateY: current ? 0 : 20,
+    config: { tension: 200, friction: 20 },
+  });
+
+  if (!current) return null;
+
+  const accent =
+    current.type === 'error' ? colors.error : current.type === 'success' ? colors.success : colors.primary;
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <AnimatedView style={[styles.toast, { borderLeftColor: accent }, springProps]}>
+        <Text style={styles.message}>{current.message}</Text>
+        {current.action && (
+          <TouchableOpacity
+            onPress={() => {
+              current.action?.onPress();
+              toast.dismiss(current.id);
+            }}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Text style={[styles.action, { color: accent }]}>{current.action.label}</Text>
+          </TouchableOpacity>
+        )}
+      </AnimatedView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: spacing.md,
+    right: spacing.md,
+    bottom: Platform.OS === 'ios' ? 100 : 80,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    backgroundColor: colors.backgroundLight,
+    borderRadius: borderRadius.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderLeftWidth: 4,
+    paddingVertical: spacing.md,
+    paddingHorizontal: spacing.md,
+  },
+  message: {
+    flex: 1,
+    fontSize: typography.bodySmall,
+    color: colors.text,
+  },
+  action: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.bold,
+  },
+});
@@ -0,0 +1,42 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, spacing, typography, borderRadius } from '../theme';
+
+interface ValueChipsProps {
+  values: string[];
+}
+
+/**
+ * The options of a checkboxes answer, shown as a row of chips
+ */
+export const ValueChips: React.FC<ValueChipsProps> = ({ values }) => (
+  <View style={styles.container}>
+    {values.map((value) => (
+      <View key={value} style={styles.chip}>
+        <Text style={styles.chipText}>{value}</Text>
+      </View>
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    backgroundColor: colors.primaryLight + '20',
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.full,
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+  },
+  chipText: {
+    fontSize: typography.caption,
+    color: colors.primary,
+    fontWeight: typography.medium,
+  },
+});
@@ -6,4 +6,11 @@ export { ErrorView } from './ErrorView';
 export { GlassHeader } from './GlassHeader';
 export { SideDrawer } from './SideDrawer';
 export { ScreenWrapper } from './ScreenWrapper';
+export { DraggableList } from './DraggableList';
+export { HighlightedText } from './HighlightedText';
+export { DateTimeInput } from './DateTimeInput';
+export { ValueChips } from './ValueChips';
+export { NumberInput } from './NumberInput';
+export { BarcodeScanner } from './BarcodeScanner';
+export { ToastHost } from './ToastHost';
 export { SkeletonLoader, FormListSkeleton, RecordListSkeleton, FieldListSkeleton } from './SkeletonLoader';
@@ -42,10 +42,18 @@ export const ANIMATION_CONFIG = {
 
 // API Configuration
 export const API_CONFIG = {
-  /** Base URL for the API */
+  /** Default server for new profiles and when no profile is active */
   BASE_URL: 'https://comp2140a3.uqcloud.net/api',
   /** Request timeout in milliseconds */
   TIMEOUT: 30000, // 30 seconds
+  /** Retries for idempotent requests (GET/PUT/DELETE) after a network or server error */
+  MAX_RETRIES: 2,
+  /** Initial retry delay in milliseconds, doubled on every retry */
+  RETRY_BASE_DELAY: 500,
+  /** Requests run at once when data has to be fetched one form at a time */
+  MAX_CONCURRENT_REQUESTS: 4,
+  /** Records moved per request when a field is renamed */
+  MIGRATION_BATCH_SIZE: 100,
 } as const;
 
 // Pagination Configuration
@@ -54,6 +62,8 @@ export const PAGINATION_CONFIG = {
   ITEMS_PER_PAGE: 20,
   /** Maximum number of items to load at once */
   MAX_ITEMS: 100,
+  /** Distance from the end of a list (in visible lengths) that triggers loading the next page */
+  END_REACHED_THRESHOLD: 0.5,
 } as const;
 
 // Cache Configuration
@@ -62,6 +72,66 @@ export const CACHE_CONFIG = {
   EXPIRY_TIME: 5 * 60 * 1000,
   /** Maximum number of cached items */
   MAX_ITEMS: 50,
+  /** Delay before access times for LRU eviction are written to storage (ms) */
+  INDEX_SAVE_DELAY: 2000,
+} as const;
+
+// Offline Outbox Configuration
+export const OUTBOX_CONFIG = {
+  /** AsyncStorage key for the queue; queued changes must outlive cache.clear() when the account changes */
+  STORAGE_KEY: '@FormBaseOutbox:queue',
+  /** Attempts before a queued item is marked as failed */
+  MAX_ATTEMPTS: 5,
+  /** Initial retry delay in milliseconds, doubled on every attempt */
+  BASE_RETRY_DELAY: 2000,
+  /** Upper bound for the retry delay in milliseconds (5 minutes) */
+  MAX_RETRY_DELAY: 5 * 60 * 1000,
+  /** How long synced items stay visible in the queue (24 hours) */
+  SYNCED_RETENTION: 24 * 60 * 60 * 1000,
+} as const;
+
+// Session Configuration
+export const SESSION_CONFIG = {
+  /** AsyncStorage key for the saved server profiles (tokens are kept in secure storage) */
+  PROFILES_KEY: '@FormBaseSession:profiles',
+  /** AsyncStorage key for the id of the active profile */
+  ACTIVE_PROFILE_KEY: '@FormBaseSession:activeProfile',
+  /** Secure storage key prefix for each profile's JWT */
+  TOKEN_KEY_PREFIX: 'formbase.token.',
+} as const;
+
+// Saved Views Configuration
+export const SAVED_VIEWS_CONFIG = {
+  /** AsyncStorage key for saved filter views, which belong to the user rather than the cache */
+  STORAGE_KEY: '@FormBaseViews:views',
+} as const;
+
+// CSV Import Configuration
+export const IMPORT_CONFIG = {
+  /** Records inserted per request */
+  BATCH_SIZE: 100,
+  /** Row errors listed in the dry-run report (the rest are counted) */
+  MAX_REPORTED_ERRORS: 50,
+} as const;
+
+// Global Search Configuration
+export const SEARCH_CONFIG = {
+  /** Shortest search term that triggers a search */
+  MIN_TERM_LENGTH: 2,
+  /** Delay after the last keystroke before searching, in milliseconds */
+  DEBOUNCE_MS: 300,
+  /** Most records returned by one search */
+  MAX_RESULTS: 100,
+  /** Characters of a long value shown around the first match */
+  SNIPPET_LENGTH: 80,
+} as const;
+
+// Toast Configuration
+export const TOAST_CONFIG = {
+  /** How long a toast stays on screen, in milliseconds */
+  DURATION_MS: 3000,
+  /** How long a delete can be undone before it is sent to the server, in milliseconds */
+  UNDO_MS: 5000,
 } as const;
 
 // Form Validation
@@ -82,6 +152,7 @@ export const VALIDATION_CONFIG = {
 export const ERROR_MESSAGES = {
   NETWORK: 'Network error. Please check your internet connection and try again.',
   GENERIC: 'An unexpected error occurred. Please try again.',
+  UNCONFIRMED_CREATE: 'The server did not confirm the save in time, so it may have been saved. Check before sending it again.',
   FORM_NOT_FOUND: 'Form not found. It may have been deleted.',
   FIELD_NOT_FOUND: 'Field not found.',
   RECORD_NOT_FOUND: 'Record not found.',
@@ -89,12 +160,16 @@ export const ERROR_MESSAGES = {
   LOAD_FORMS_FAILED: 'Failed to load forms. Please try again.',
   LOAD_FIELDS_FAILED: 'Failed to load fields. Please try again.',
   LOAD_RECORDS_FAILED: 'Failed to load records. Please try again.',
+  LOAD_VALUE_FAILED: 'Failed to load this value. Please try again.',
   CREATE_FORM_FAILED: 'Failed to create form. Please try again.',
   UPDATE_FORM_FAILED: 'Failed to update form. Please try again.',
   DELETE_FORM_FAILED: 'Failed to delete form. Please try again.',
   CREATE_FIELD_FAILED: 'Failed to create field. Please try again.',
+  UPDATE_FIELD_FAILED: 'Failed to update field. Please try again.',
+  REORDER_FIELDS_FAILED: 'Failed to save the new field order. Please try again.',
   DELETE_FIELD_FAILED: 'Failed to delete field. Please try again.',
   CREATE_RECORD_FAILED: 'Failed to create record. Please try again.',
+  UPDATE_RECORD_FAILED: 'Failed to update record. Please try again.',
   DELETE_RECORD_FAILED: 'Failed to delete record. Please try again.',
   LOCATION_PERMISSION_DENIED: 'Location permission is required to use this feature.',
   LOCATION_FAILED: 'Failed to get location. Please try again.',
@@ -103,6 +178,15 @@ export const ERROR_MESSAGES = {
   IMAGE_FAILED: 'Failed to load image. Please try again.',
   IMAGE_TOO_LARGE: 'Image is too large. Maximum size is 10MB.',
   COPY_FAILED: 'Failed to copy to clipboard.',
+  INVALID_URL: 'Please enter a valid http(s) URL.',
+  CONNECTION_TEST_FAILED: 'Could not reach the server. Please check the URL and try again.',
+  SIGN_IN_FAILED: 'Failed to sign in. Please check your username and token.',
+  EXPORT_FAILED: 'Failed to export records. Please try again.',
+  SAVE_VIEW_FAILED: 'Failed to save the view. Please try again.',
+  DELETE_VIEW_FAILED: 'Failed to delete the view. Please try again.',
+  IMPORT_FAILED: 'Failed to import records. Please try again.',
+  INVALID_CSV: 'The file could not be read as CSV. Please check it has a header row.',
+  SEARCH_FAILED: 'Search failed. Please try again.',
 } as const;
 
 // Success Messages
@@ -111,8 +195,15 @@ export const SUCCESS_MESSAGES = {
   FORM_UPDATED: 'Form updated successfully!',
   FORM_DELETED: 'Form deleted successfully!',
   FIELD_CREATED: 'Field added successfully!',
+  FIELD_UPDATED: 'Field updated successfully!',
   FIELD_DELETED: 'Field deleted successfully!',
   RECORD_CREATED: 'Record saved successfully!',
+  RECORD_UPDATED: 'Record updated successfully!',
   RECORD_DELETED: 'Record deleted successfully!',
   COPY_SUCCESS: 'Copied to clipboard!',
+  SIGNED_OUT: 'You have been signed out.',
+  PROFILE_SAVED: 'Server profile saved!',
+  VIEW_SAVED: 'View saved!',
+  VIEW_DELETED: 'View deleted.',
+  QUEUED_OFFLINE: 'You are offline. The change has been queued and will sync when you reconnect.',
 } as const;
@@ -1,13 +1,13 @@
 export interface MenuItem {
   title: string;
-  icon: 'home' | 'information-circle' | 'document-text' | 'map' | 'settings' | 'list' | 'help-circle';
+  icon: 'home' | 'information-circle' | 'document-text' | 'map' | 'settings' | 'list' | 'help-circle' | 'cloud-upload' | 'person-circle' | 'server';
   onPress: () => void;
 }
 
 /**
  * Shared navigation menu items for side drawer
  * Used across all tab screens for consistent navigation
- * Returns: Records, Help, Map List (matching HomeScreen style)
+ * Returns: Records, Help, Map List, Sync Queue, Account, Servers (matching HomeScreen style)
  */
 export const getStandardMenuItems = (navigation: any): MenuItem[] => [
   {
@@ -25,4 +25,19 @@ export const getStandardMenuItems = (navigation: any): MenuItem[] => [
     icon: 'map' as const,
     onPress: () => navigation.navigate('MapList'),
   },
+  {
+    title: 'Sync Queue',
+    icon: 'cloud-upload' as const,
+    onPress: () => navigation.navigate('Outbox'),
+  },
+  {
+    title: 'Account',
+    icon: 'person-circle' as const,
+    onPress: () => navigation.navigate('SignIn'),
+  },
+  {
+    title: 'Servers',
+    icon: 'server' as const,
+    onPress: () => navigation.navigate('ServerSettings'),
+  },
 ];
@@ -0,0 +1,105 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { Form, Field, Record } from '../types';
+import {
+  dataStore,
+  formsQuery,
+  fieldsQuery,
+  allRecordsQuery,
+  recordsQuery,
+  RecordListOptions,
+  StoreQuery,
+  QuerySnapshot,
+} from '../services/dataStore';
+import { withFormNames, FormRecord } from '../services/formRecords';
+
+export interface QueryResult<T> extends QuerySnapshot<T> {
+  refresh: () => Promise<void>;
+}
+
+export interface RecordsResult extends QueryResult<Record> {
+  /** Total matching records, or null if the server did not report it */
+  total: number | null;
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => Promise<void>;
+}
+
+const noop = () => {};
+
+/**
+ * Read a query from the shared store, loading it on first use and re-rendering when it changes
+ * Without a query it stays loading
+ */
+const useQuery = <T extends Form | Field | Record>(query: StoreQuery<T> | null): QueryResult<T> => {
+  const subscribe = useCallback(
+    (listener: () => void) => (query ? dataStore.watch(query, listener) : noop),
+    [query]
+  );
+  const getSnapshot = useCallback(() => dataStore.getSnapshot<T>(query?.key ?? ''), [query]);
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+  const refresh = useCallback(async () => {
+    if (query) await dataStore.refresh(query.key);
+  }, [query]);
+  return { ...snapshot, refresh };
+};
+
+export const useForms = (): QueryResult<Form> => useQuery(useMemo(formsQuery, []));
+
+export const useFields = (formId: number): QueryResult<Field> =>
+  useQuery(useMemo(() => fieldsQuery(formId), [formId]));
+
+/**
+ * Records of one or more forms, a page at a time, kept up to date with changes made anywhere in the app
+ * Pass null for formIds while the screen is still working out what to show
+ */
+export const useRecords = (formIds: number | number[] | null, options: RecordListOptions = {}): RecordsResult => {
+  const key = JSON.stringify([formIds, options]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const query = useMemo(() => (formIds !== null ? recordsQuery(formIds, options) : null), [key]);
+  const result = useQuery(query);
+  const loadMore = useCallback(async () => {
+    if (query) await dataStore.loadMore(query.key);
+  }, [query]);
+
+  return {
+    ...result,
+    total: result.page?.total ?? null,
+    hasMore: result.page?.hasMore ?? false,
+    loadingMore: result.page?.loadingMore ?? false,
+    loadMore,
+  };
+};
+
+/**
+ * Records still being created, newest first, of one form or of every form
+ * Record lists page through the server themselves and show these until the create is confirmed
+ */
+export const usePendingRecords = (formId?: number): Record[] => {
+  const subscribe = useCallback((listener: () => void) => dataStore.watchPending(listener), []);
+  const getSnapshot = useCallback(() => dataStore.getPending<Record>('record'), []);
+  const records = useSyncExternalStore(subscribe, getSnapshot);
+  return useMemo(
+    () => (formId === undefined ? records : records.filter(record => record.form_id === formId)),
+    [records, formId]
+  );
+};
+
+/**
+ * Records of every form along with their form names
+ */
+export const useAllRecords = (): QueryResult<FormRecord> => {
+  const forms = useForms();
+  const records = useQuery(useMemo(allRecordsQuery, []));
+  const { refresh: refreshForms } = forms;
+  const { refresh: refreshRecords } = records;
+
+  const data = useMemo(
+    () => (records.data ? withFormNames(records.data, forms.data ?? []) : undefined),
+    [records.data, forms.data]
+  );
+  const refresh = useCallback(async () => {
+    await Promise.all([refreshForms(), refreshRecords()]);
+  }, [refreshForms, refreshRecords]);
+
+  return { ...records, data, refresh };
+};
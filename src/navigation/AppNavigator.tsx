@@ -1,12 +1,17 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { colors } from '../theme';
 import { TabNavigator } from './TabNavigator';
+import { navigationRef } from './navigationRef';
+import { session } from '../services/session';
 
 // Import screens
 import LandingScreen from '../screens/LandingScreen';
+import SignInScreen from '../screens/SignInScreen';
+import ServerSettingsScreen from '../screens/ServerSettingsScreen';
+import ProfileEditScreen from '../screens/ProfileEditScreen';
 import FormCreateScreen from '../screens/FormCreateScreen';
 import FormEditScreen from '../screens/FormEditScreen';
 import FormDetailScreen from '../screens/FormDetailScreen';
@@ -15,14 +20,26 @@ import RecordCreateScreen from '../screens/RecordCreateScreen';
 import RecordListScreen from '../screens/RecordListScreen';
 import RecordsListScreen from '../screens/RecordsListScreen';
 import FilterBuilderScreen from '../screens/FilterBuilderScreen';
+import ExportScreen from '../screens/ExportScreen';
+import ImportScreen from '../screens/ImportScreen';
 import HelpScreen from '../screens/HelpScreen';
 import MapListScreen from '../screens/MapListScreen';
+import OutboxScreen from '../screens/OutboxScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export const AppNavigator: React.FC = () => {
+  useEffect(() => {
+    // Send the user back to sign-in whenever the server rejects their token
+    return session.onUnauthorized(() => {
+      if (navigationRef.isReady() && navigationRef.getCurrentRoute()?.name !== 'SignIn') {
+        navigationRef.reset({ index: 0, routes: [{ name: 'SignIn' }] });
+      }
+    });
+  }, []);
+
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <Stack.Navigator
         initialRouteName="Landing"
         screenOptions={{
@@ -43,6 +60,21 @@ export const AppNavigator: React.FC = () => {
           component={LandingScreen}
           options={{ headerShown: false }}
         />
+        <Stack.Screen
+          name="SignIn"
+          component={SignInScreen}
+          options={{ title: 'Account' }}
+        />
+        <Stack.Screen
+          name="ServerSettings"
+          component={ServerSettingsScreen}
+          options={{ title: 'Servers' }}
+        />
+        <Stack.Screen
+          name="ProfileEdit"
+          component={ProfileEditScreen}
+          options={{ title: 'Server Profile' }}
+        />
         <Stack.Screen
           name="MainTabs"
           component={TabNavigator}
@@ -68,11 +100,21 @@ export const AppNavigator: React.FC = () => {
           component={FieldCreateScreen}
           options={{ title: 'Add Field' }}
         />
+        <Stack.Screen
+          name="FieldEdit"
+          component={FieldCreateScreen}
+          options={{ title: 'Edit Field' }}
+        />
         <Stack.Screen
           name="RecordCreate"
           component={RecordCreateScreen}
           options={{ title: 'Fill Form' }}
         />
+        <Stack.Screen
+          name="RecordEdit"
+          component={RecordCreateScreen}
+          options={{ title: 'Edit Record' }}
+        />
         <Stack.Screen
           name="RecordList"
           component={RecordListScreen}
@@ -88,6 +130,16 @@ export const AppNavigator: React.FC = () => {
           component={FilterBuilderScreen}
           options={{ title: 'Filter Records' }}
         />
+        <Stack.Screen
+          name="Export"
+          component={ExportScreen}
+          options={{ title: 'Export Records' }}
+        />
+        <Stack.Screen
+          name="Import"
+          component={ImportScreen}
+          options={{ title: 'Import CSV' }}
+        />
         <Stack.Screen
           name="Help"
           component={HelpScreen}
@@ -98,6 +150,11 @@ export const AppNavigator: React.FC = () => {
           component={MapListScreen}
           options={{ title: 'Saved Locations' }}
         />
+        <Stack.Screen
+          name="Outbox"
+          component={OutboxScreen}
+          options={{ title: 'Sync Queue' }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,7 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { RootStackParamList } from '../types';
+
+/**
+ * Navigation ref for routing from outside React components (e.g. the API layer)
+ */
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
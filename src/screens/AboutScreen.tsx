@@ -35,7 +35,7 @@ const AboutScreen: React.FC<Props> = ({ navigation }) => {
         <Text style={styles.sectionTitle}>Features</Text>
         <View style={styles.featureList}>
           <Text style={styles.feature}>• Create and manage custom forms</Text>
-          <Text style={styles.feature}>• Support for 5 field types: text, multiline, multiple choice, location, and image</Text>
+          <Text style={styles.feature}>• Support for 12 field types: text, multiline, number, yes/no, multiple choice, checkboxes, date, time, date & time, location, image, and barcode / QR</Text>
           <Text style={styles.feature}>• Fill forms and save records with JSONB storage</Text>
           <Text style={styles.feature}>• View, delete, and copy records to clipboard</Text>
           <Text style={styles.feature}>• Build complex filter criteria with AND/OR logic</Text>
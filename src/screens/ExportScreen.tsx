@@ -0,0 +1,292 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList, Field, Form } from '../types';
+import { Button, Card, Loading, ErrorView } from '../components';
+import { formAPI, fieldAPI } from '../services/api';
+import { exportRecords, ImageExportMode } from '../services/exportService';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/exporters';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { ERROR_MESSAGES } from '../constants/appConstants';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errors';
+import { getConditions } from '../utils/filterTree';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Export'>;
+
+const FORMAT_OPTIONS: { value: ExportFormat; icon: string; description: string }[] = [
+  { value: 'csv', icon: '📊', description: 'One column per field, opens in spreadsheets' },
+  { value: 'json', icon: '🧾', description: 'Form schema and records' },
+  { value: 'geojson', icon: '🗺️', description: 'Location fields as map points' },
+];
+
+const IMAGE_OPTIONS: { value: ImageExportMode; label: string; description: string }[] = [
+  { value: 'none', label: 'Leave Out', description: 'Images are shown as [image]' },
+  { value: 'zip', label: 'Zip', description: 'Data file and images in one zip archive' },
+  { value: 'files', label: 'Separate Files', description: 'Save data and images to a folder you choose' },
+];
+
+const ExportScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { formId, formName, filters, sort } = route.params;
+  const [form, setForm] = useState<Form | null>(null);
+  const [fields, setFields] = useState<Field[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [images, setImages] = useState<ImageExportMode>('none');
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filterCount = filters ? getConditions(filters).length : 0;
+  const hasLocation = fields.some(f => f.field_type === 'location');
+  const hasImages = fields.some(f => f.field_type === 'image');
+
+  const loadData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [formData, fieldData] = await Promise.all([
+        formAPI.getById(formId),
+        fieldAPI.getByFormId(formId),
+      ]);
+      setForm(formData);
+      setFields(fieldData);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      setError(errorMessage);
+      logger.error('Load export data error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [formId]);
+
+  const handleExport = async () => {
+    if (!form) return;
+
+    try {
+      setExporting(true);
+      setProgress('Downloading records...');
+
+      const result = await exportRecords({
+        form,
+        fields,
+        format,
+        images: hasImages ? images : 'none',
+        filters,
+        sort,
+        onProgress: (loaded, total) =>
+          setProgress(`Downloaded ${loaded}${total !== null ? ` of ${total}` : ''} records...`),
+      });
+
+      const summary = `${result.recordCount} ${result.recordCount === 1 ? 'record' : 'records'}` +
+        (result.imageCount > 0 ? ` and ${result.imageCount} images` : '');
+
+      if (!result.shared) {
+        Alert.alert('Export Complete', `Saved ${summary}.`, [
+          { text: 'OK', onPress: () => navigation.goBack() },
+        ]);
+      }
+      logger.log(`Export complete: ${summary}`);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.EXPORT_FAILED);
+      logger.error('Export error:', err);
+    } finally {
+      setExporting(false);
+      setProgress(null);
+    }
+  };
+
+  if (loading) {
+    return <Loading message="Loading form..." />;
+  }
+
+  if (error) {
+    return <ErrorView message={error} onRetry={loadData} />;
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Card style={styles.section}>
+        <Text style={styles.title}>{formName}</Text>
+        <Text style={styles.helperText}>
+          {filterCount > 0
+            ? `Exporting records matching ${filterCount} ${filterCount === 1 ? 'filter' : 'filters'}`
+            : 'Exporting all records'}
+        </Text>
+      </Card>
+
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Format</Text>
+        <View style={styles.optionGrid}>
+          {FORMAT_OPTIONS.map(option => {
+            const disabled = option.value === 'geojson' && !hasLocation;
+            return (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.optionButton,
+                  format === option.value && styles.optionButtonActive,
+                  disabled && styles.optionButtonDisabled,
+                ]}
+                onPress={() => setFormat(option.value)}
+                disabled={disabled}
+              >
+                <Text style={styles.optionIcon}>{option.icon}</Text>
+                <Text style={[styles.optionLabel, format === option.value && styles.optionLabelActive]}>
+                  {EXPORT_FORMATS[option.value].label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={styles.helperText}>
+          {FORMAT_OPTIONS.find(o => o.value === format)?.description}
+          {!hasLocation && ' · GeoJSON needs a location field'}
+        </Text>
+      </Card>
+
+      {hasImages && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Images</Text>
+          {IMAGE_OPTIONS.map(option => (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.radioRow}
+              onPress={() => setImages(option.value)}
+            >
+              <View style={[styles.radio, images === option.value && styles.radioActive]}>
+                {images === option.value && <View style={styles.radioDot} />}
+              </View>
+              <View style={styles.radioText}>
+                <Text style={styles.radioLabel}>{option.label}</Text>
+                <Text style={styles.helperText}>{option.description}</Text>
+              </View>
+            </TouchableOpacity>
+          ))}
+        </Card>
+      )}
+
+      {progress && <Text style={styles.progress}>{progress}</Text>}
+
+      <Button
+        title="Export & Share"
+        onPress={handleExport}
+        loading={exporting}
+        disabled={exporting}
+        size="large"
+        style={styles.button}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  title: {
+    fontSize: typography.h3,
+    fontWeight: typography.bold,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  sectionTitle: {
+    fontSize: typography.h4,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginBottom: spacing.md,
+  },
+  helperText: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  optionGrid: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  optionButton: {
+    flex: 1,
+    backgroundColor: colors.background,
+    borderWidth: 2,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+  },
+  optionButtonActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.primaryLight + '20',
+  },
+  optionButtonDisabled: {
+    opacity: 0.4,
+  },
+  optionIcon: {
+    fontSize: 32,
+    marginBottom: spacing.xs,
+  },
+  optionLabel: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+    fontWeight: typography.medium,
+  },
+  optionLabelActive: {
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
+  radioRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+  },
+  radio: {
+    width: 22,
+    height: 22,
+    borderRadius: borderRadius.full,
+    borderWidth: 2,
+    borderColor: colors.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: spacing.md,
+  },
+  radioActive: {
+    borderColor: colors.primary,
+  },
+  radioDot: {
+    width: 10,
+    height: 10,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.primary,
+  },
+  radioText: {
+    flex: 1,
+  },
+  radioLabel: {
+    fontSize: typography.body,
+    color: colors.text,
+    fontWeight: typography.medium,
+  },
+  progress: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  button: {
+    marginTop: spacing.sm,
+  },
+});
+
+export default ExportScreen;
@@ -1,14 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { RootStackParamList, FieldType } from '../types';
-import { Button, Input, Card } from '../components';
-import { fieldAPI } from '../services/api';
+import { RootStackParamList, Field, FieldConfig, FieldType, NumberInputStyle, OutboxOperation } from '../types';
+import { Button, Input, Card, Loading, ErrorView, DateTimeInput } from '../components';
+import { fieldAPI, recordAPI } from '../services/api';
+import { outbox } from '../services/outbox';
+import { createOptimistically } from '../services/optimistic';
 import { colors, spacing, typography, borderRadius } from '../theme';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '../constants/appConstants';
 import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
+import { getErrorMessage, isNetworkError } from '../utils/errors';
+import { isTemporalType, parseTemporal } from '../utils/dates';
+import { parseNumber } from '../utils/numbers';
+import { compilePattern } from '../utils/barcodes';
 
-type Props = NativeStackScreenProps<RootStackParamList, 'FieldCreate'>;
+type Props = NativeStackScreenProps<RootStackParamList, 'FieldCreate' | 'FieldEdit'>;
 
 const FIELD_TYPES: { value: FieldType; label: string; icon: string; description: string }[] = [
   { value: 'text', label: 'Text', icon: '📝', description: 'Single line text input' },
@@ -16,28 +22,130 @@ const FIELD_TYPES: { value: FieldType; label: string; icon: string; description:
   { value: 'multiple choice', label: 'Multiple Choice', icon: '☑️', description: 'Choose from predefined options' },
   { value: 'location', label: 'Location', icon: '📍', description: 'GPS coordinates capture' },
   { value: 'image', label: 'Image', icon: '📷', description: 'Photo capture or selection' },
+  { value: 'date', label: 'Date', icon: '📅', description: 'Calendar date' },
+  { value: 'time', label: 'Time', icon: '🕒', description: 'Time of day' },
+  { value: 'datetime', label: 'Date & Time', icon: '🗓️', description: 'Date with a time of day' },
+  { value: 'checkboxes', label: 'Checkboxes', icon: '✅', description: 'Select all options that apply' },
+  { value: 'number', label: 'Number', icon: '🔢', description: 'Number with optional limits and unit' },
+  { value: 'boolean', label: 'Yes / No', icon: '🔘', description: 'Switch for yes or no questions' },
+  { value: 'barcode', label: 'Barcode / QR', icon: '🏷️', description: 'Code read with the camera' },
 ];
 
+const NUMBER_INPUTS: { value: NumberInputStyle; label: string }[] = [
+  { value: 'keyboard', label: 'Keyboard' },
+  { value: 'stepper', label: 'Stepper' },
+  { value: 'slider', label: 'Slider' },
+];
+
+type FieldErrors = {
+  name?: string;
+  options?: string;
+  range?: string;
+  selection?: string;
+  number?: string;
+  barcode?: string;
+};
+
+/**
+ * Field form screen
+ * Serves both the FieldCreate and FieldEdit routes; the field type is fixed once created
+ */
 const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
   const { formId } = route.params;
+  const fieldId = 'fieldId' in route.params ? route.params.fieldId : undefined;
+  const isEditing = fieldId !== undefined;
+  const [original, setOriginal] = useState<Field | null>(null);
+  const [loadingField, setLoadingField] = useState(isEditing);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [name, setName] = useState('');
   const [fieldType, setFieldType] = useState<FieldType>('text');
   const [required, setRequired] = useState(false);
   const [isNum, setIsNum] = useState(false);
   const [options, setOptions] = useState<string[]>([]);
   const [optionInput, setOptionInput] = useState('');
+  const [minDate, setMinDate] = useState('');
+  const [maxDate, setMaxDate] = useState('');
+  const [defaultNow, setDefaultNow] = useState(false);
+  const [minSelected, setMinSelected] = useState('');
+  const [maxSelected, setMaxSelected] = useState('');
+  const [numberMin, setNumberMin] = useState('');
+  const [numberMax, setNumberMax] = useState('');
+  const [decimals, setDecimals] = useState('');
+  const [step, setStep] = useState('');
+  const [unit, setUnit] = useState('');
+  const [numberInput, setNumberInput] = useState<NumberInputStyle>('keyboard');
+  const [allowUnanswered, setAllowUnanswered] = useState(false);
+  const [pattern, setPattern] = useState('');
+  const [prefixes, setPrefixes] = useState('');
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ name?: string; options?: string }>({});
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const hasOptions = fieldType === 'multiple choice' || fieldType === 'checkboxes';
   const [orderIndex, setOrderIndex] = useState(0);
+  // Names of the form's other fields; records store answers by name, so two fields can't share one
+  const [otherNames, setOtherNames] = useState<string[]>([]);
 
   useEffect(() => {
-    loadOrderIndex();
+    if (isEditing) {
+      loadField();
+    } else {
+      loadOrderIndex();
+    }
   }, []);
 
+  const loadField = async () => {
+    try {
+      setLoadingField(true);
+      setLoadError(null);
+      const fields = await fieldAPI.getByFormId(formId);
+      const field = fields.find((f) => f.id === fieldId);
+      setOtherNames(fields.filter((f) => f.id !== fieldId).map((f) => f.name));
+
+      if (!field) {
+        setLoadError('Field not found. It may have been deleted.');
+        return;
+      }
+
+      setOriginal(field);
+      setName(field.name);
+      setFieldType(field.field_type);
+      setRequired(field.required);
+      setIsNum(field.is_num);
+      setOptions(field.options || []);
+      setMinDate(field.config?.minDate ?? '');
+      setMaxDate(field.config?.maxDate ?? '');
+      setDefaultNow(field.config?.defaultNow ?? false);
+      setMinSelected(field.config?.minSelected ? String(field.config.minSelected) : '');
+      setMaxSelected(field.config?.maxSelected ? String(field.config.maxSelected) : '');
+      setNumberMin(field.config?.min !== undefined ? String(field.config.min) : '');
+      setNumberMax(field.config?.max !== undefined ? String(field.config.max) : '');
+      setDecimals(field.config?.decimals !== undefined ? String(field.config.decimals) : '');
+      setStep(field.config?.step !== undefined ? String(field.config.step) : '');
+      setUnit(field.config?.unit ?? '');
+      setNumberInput(field.config?.numberInput ?? 'keyboard');
+      setAllowUnanswered(field.config?.allowUnanswered ?? false);
+      setPattern(field.config?.pattern ?? '');
+      setPrefixes(field.config?.prefixes?.join(', ') ?? '');
+      setOrderIndex(field.order_index);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      setLoadError(errorMessage);
+      logger.error('Load field error:', err);
+    } finally {
+      setLoadingField(false);
+    }
+  };
+
+  /**
+   * Place the new field after the highest existing order_index
+   * so deleted fields never cause duplicate indexes
+   */
   const loadOrderIndex = async () => {
     try {
       const fields = await fieldAPI.getByFormId(formId);
-      setOrderIndex(fields.length);
+      const maxIndex = fields.reduce((max, field) => Math.max(max, field.order_index), -1);
+      setOtherNames(fields.map((field) => field.name));
+      setOrderIndex(maxIndex + 1);
     } catch (err) {
       const errorMessage = getErrorMessage(err);
       logger.error('Failed to load field order:', err);
@@ -46,7 +154,7 @@ const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   const validate = (): boolean => {
-    const newErrors: { name?: string; options?: string } = {};
+    const newErrors: FieldErrors = {};
 
     if (!name.trim()) {
       newErrors.name = 'Field name is required';
@@ -54,12 +162,42 @@ const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
       newErrors.name = 'Field name must be at least 2 characters';
     } else if (name.trim().length > 50) {
       newErrors.name = 'Field name must be less than 50 characters';
+    } else if (otherNames.includes(name.trim())) {
+      newErrors.name = 'Another field of this form already has this name';
+    }
+
+    if (hasOptions && options.length === 0) {
+      newErrors.options = `At least one option is required for ${fieldType}`;
+    } else if (hasOptions && options.length < 2) {
+      newErrors.options = `${fieldType === 'checkboxes' ? 'Checkboxes need' : 'Multiple choice needs'} at least 2 options`;
     }
 
-    if (fieldType === 'multiple choice' && options.length === 0) {
-      newErrors.options = 'At least one option is required for multiple choice';
-    } else if (fieldType === 'multiple choice' && options.length < 2) {
-      newErrors.options = 'Multiple choice needs at least 2 options';
+    if (fieldType === 'checkboxes') {
+      const counts = [minSelected, maxSelected].filter(Boolean).map(Number);
+      if (counts.some(count => !Number.isInteger(count) || count < 1)) {
+        newErrors.selection = 'Selection limits must be whole numbers of at least 1';
+      } else if (counts.some(count => count > options.length)) {
+        newErrors.selection = `Selection limits can't be more than the ${options.length} options`;
+      } else if (minSelected && maxSelected && Number(minSelected) > Number(maxSelected)) {
+        newErrors.selection = 'The minimum must not be more than the maximum';
+      }
+    }
+
+    if (fieldType === 'number') {
+      const problem = describeNumberSettingsProblem();
+      if (problem) newErrors.number = problem;
+    }
+
+    if (fieldType === 'barcode' && pattern.trim() && !compilePattern(pattern.trim())) {
+      newErrors.barcode = 'Pattern is not a valid regular expression';
+    }
+
+    if (isTemporalType(fieldType) && minDate && maxDate) {
+      const min = parseTemporal(minDate, fieldType);
+      const max = parseTemporal(maxDate, fieldType);
+      if (min && max && min > max) {
+        newErrors.range = 'The earliest value must not be after the latest';
+      }
     }
 
     setErrors(newErrors);
@@ -102,42 +240,231 @@ const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
     setOptions(options.filter((_, i) => i !== index));
   };
 
-  const handleCreate = async () => {
-    if (!validate()) {
-      Alert.alert('Validation Error', 'Please fix the errors before submitting');
-      return;
+  /**
+   * Switch the type of a new field; limits are dropped since each type writes them differently
+   */
+  const selectType = (type: FieldType) => {
+    setFieldType(type);
+    setMinDate('');
+    setMaxDate('');
+  };
+
+  const clearError = (key: keyof typeof errors) => {
+    if (errors[key]) {
+      const newErrors = { ...errors };
+      delete newErrors[key];
+      setErrors(newErrors);
+    }
+  };
+
+  /**
+   * What is wrong with a number field's limits, precision and input style, if anything
+   */
+  const describeNumberSettingsProblem = (): string | undefined => {
+    const [min, max, stepValue] = [numberMin, numberMax, step].map(text => (text.trim() ? parseNumber(text) : undefined));
+    const places = decimals.trim() ? parseNumber(decimals) : undefined;
+
+    if (min === null || max === null || stepValue === null) return 'Minimum, maximum and step must be numbers';
+    if (min !== undefined && max !== undefined && min > max) return 'The minimum must not be more than the maximum';
+    if (places === null || (places !== undefined && (!Number.isInteger(places) || places < 0 || places > 10))) {
+      return 'Decimal places must be a whole number from 0 to 10';
     }
+    if (stepValue !== undefined && stepValue <= 0) return 'Step must be greater than 0';
+    if (numberInput === 'slider' && (min === undefined || max === undefined)) {
+      return 'A slider needs both a minimum and a maximum';
+    }
+    if (unit.trim().length > 20) return 'Unit must be less than 20 characters';
+    return undefined;
+  };
+
+  /**
+   * Type-specific settings to save with the field, leaving out those at their defaults
+   * Undefined when none are set, so fields that need no settings are saved without a config
+   */
+  const buildConfig = (): FieldConfig | undefined => {
+    const config = typeSettings();
+    const entries = Object.entries(config ?? {}).filter(([, value]) => value !== undefined);
+    return entries.length > 0 ? (Object.fromEntries(entries) as FieldConfig) : undefined;
+  };
+
+  const typeSettings = (): FieldConfig | undefined => {
+    if (fieldType === 'boolean') {
+      return { allowUnanswered: allowUnanswered || undefined };
+    }
+    if (fieldType === 'barcode') {
+      const expected = prefixes.split(',').map(prefix => prefix.trim()).filter(Boolean);
+      return {
+        pattern: pattern.trim() || undefined,
+        prefixes: expected.length > 0 ? expected : undefined,
+      };
+    }
+    if (fieldType === 'number') {
+      const toNumber = (text: string) => (text.trim() ? parseNumber(text) ?? undefined : undefined);
+      return {
+        min: toNumber(numberMin),
+        max: toNumber(numberMax),
+        decimals: toNumber(decimals),
+        step: toNumber(step),
+        unit: unit.trim() || undefined,
+        numberInput: numberInput === 'keyboard' ? undefined : numberInput,
+      };
+    }
+    if (fieldType === 'checkboxes') {
+      return {
+        minSelected: minSelected ? Number(minSelected) : undefined,
+        maxSelected: maxSelected ? Number(maxSelected) : undefined,
+      };
+    }
+    if (!isTemporalType(fieldType)) return undefined;
+    return {
+      minDate: minDate || undefined,
+      maxDate: maxDate || undefined,
+      defaultNow: defaultNow || undefined,
+    };
+  };
+
+  /**
+   * Save changes to an existing field
+   * When the name changed, optionally migrate the key in existing records' values
+   */
+  const handleUpdate = async (migrateRecords: boolean) => {
+    if (!original) return;
+
+    const changes = {
+      name: name.trim(),
+      required,
+      is_num: fieldType === 'number' || isNum,
+      options: hasOptions ? options : undefined,
+      // Cleared settings are removed; fields that never had any are saved without a config
+      config: buildConfig() ?? (original.config ? null : undefined),
+    };
+
+    const migration: OutboxOperation = {
+      type: 'record.renameKey',
+      formId,
+      fieldId: original.id,
+      oldKey: original.name,
+      newKey: changes.name,
+    };
+    const migrationDescription = `Move answers from "${original.name}" to "${changes.name}"`;
+    let fieldUpdated = false;
 
     try {
       setLoading(true);
-      await fieldAPI.create({
-        form_id: formId,
-        name: name.trim(),
-        field_type: fieldType,
-        required,
-        is_num: isNum,
-        order_index: orderIndex,
-        options: fieldType === 'multiple choice' ? options : undefined,
-      });
-      Alert.alert('Success', 'Field added successfully', [
+      await fieldAPI.update(original.id, changes);
+      fieldUpdated = true;
+
+      let message = 'Field updated successfully';
+      if (migrateRecords) {
+        const { migrated, failed, skipped } = await recordAPI.renameValueKey(formId, original.name, changes.name);
+        message += `. ${migrated.length} ${migrated.length === 1 ? 'record was' : 'records were'} migrated.`;
+        if (skipped.length > 0) {
+          message += ` Records #${skipped.join(', #')} already had an answer under "${changes.name}" and were left unchanged.`;
+        }
+        if (failed.length > 0) {
+          // Listed in the sync queue, where the rest can be retried
+          await outbox.enqueue(migration, migrationDescription);
+          message += ` Records #${failed.join(', #')} could not be migrated; retry them from the Sync Queue.`;
+        }
+      }
+
+      Alert.alert('Success', message, [
         {
           text: 'OK',
           onPress: () => navigation.goBack(),
         },
       ]);
     } catch (err: any) {
+      if (isNetworkError(err)) {
+        if (!fieldUpdated) {
+          await outbox.enqueue({ type: 'field.update', id: original.id, payload: changes }, `Update field "${changes.name}"`);
+        }
+        if (migrateRecords) {
+          await outbox.enqueue(migration, migrationDescription);
+        }
+        Alert.alert('Queued', SUCCESS_MESSAGES.QUEUED_OFFLINE, [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]);
+        return;
+      }
       const errorMessage = getErrorMessage(err);
-      logger.error('Field creation error:', err);
+      logger.error('Field update error:', err);
       Alert.alert('Error', errorMessage);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSave = () => {
+    if (!validate()) {
+      Alert.alert('Validation Error', 'Please fix the errors before submitting');
+      return;
+    }
+
+    if (!isEditing) {
+      handleCreate();
+      return;
+    }
+
+    if (original && original.name !== name.trim()) {
+      Alert.alert(
+        'Rename Field',
+        `Existing records store their answers under "${original.name}". Do you want to move them to "${name.trim()}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Rename Only', onPress: () => handleUpdate(false) },
+          { text: 'Rename & Migrate', onPress: () => handleUpdate(true) },
+        ]
+      );
+      return;
+    }
+
+    handleUpdate(false);
+  };
+
+  const handleCreate = () => {
+    const field = {
+      form_id: formId,
+      name: name.trim(),
+      field_type: fieldType,
+      required,
+      is_num: fieldType === 'number' || isNum,
+      order_index: orderIndex,
+      options: hasOptions ? options : undefined,
+      config: buildConfig(),
+    };
+
+    // The new field shows on the form straight away and is removed again if saving fails
+    createOptimistically<Field>({
+      entity: 'field',
+      item: field,
+      failureMessage: ERROR_MESSAGES.CREATE_FIELD_FAILED,
+      commit: () => fieldAPI.create(field),
+      queue: async () => {
+        await outbox.enqueue({ type: 'field.create', payload: field }, `Add field "${field.name}"`);
+      },
+    });
+    navigation.goBack();
+  };
+
+  if (loadingField) {
+    return <Loading message="Loading field..." />;
+  }
+
+  if (loadError) {
+    return <ErrorView message={loadError} onRetry={loadField} />;
+  }
+
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Card style={styles.section}>
         <Text style={styles.sectionTitle}>Field Type</Text>
+        {isEditing && (
+          <Text style={styles.helperText}>The field type cannot be changed after creation</Text>
+        )}
         <View style={styles.typeGrid}>
           {FIELD_TYPES.map((type) => (
             <TouchableOpacity
@@ -145,8 +472,10 @@ const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
               style={[
                 styles.typeButton,
                 fieldType === type.value && styles.typeButtonActive,
+                isEditing && fieldType !== type.value && styles.typeButtonDisabled,
               ]}
-              onPress={() => setFieldType(type.value)}
+              onPress={() => selectType(type.value)}
+              disabled={isEditing}
             >
               <Text style={styles.typeIcon}>{type.icon}</Text>
               <Text
@@ -188,6 +517,18 @@ const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
           <Text style={styles.checkboxLabel}>Required field</Text>
         </TouchableOpacity>
 
+        {fieldType === 'boolean' && (
+          <TouchableOpacity
+            style={styles.checkbox}
+            onPress={() => setAllowUnanswered(!allowUnanswered)}
+          >
+            <View style={[styles.checkboxBox, allowUnanswered && styles.checkboxBoxChecked]}>
+              {allowUnanswered && <Text style={styles.checkboxCheck}>✓</Text>}
+            </View>
+            <Text style={styles.checkboxLabel}>Allow unanswered (otherwise starts as No)</Text>
+          </TouchableOpacity>
+        )}
+
         {fieldType === 'text' && (
           <TouchableOpacity
             style={styles.checkbox}
@@ -201,9 +542,47 @@ const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
         )}
       </Card>
 
-      {fieldType === 'multiple choice' && (
+      {isTemporalType(fieldType) && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Allowed Range</Text>
+          <Text style={styles.helperText}>Leave empty to allow any value</Text>
+          <DateTimeInput
+            label="Earliest"
+            type={fieldType}
+            value={minDate}
+            onChange={(value) => {
+              setMinDate(value ?? '');
+              clearError('range');
+            }}
+          />
+          <DateTimeInput
+            label="Latest"
+            type={fieldType}
+            value={maxDate}
+            onChange={(value) => {
+              setMaxDate(value ?? '');
+              clearError('range');
+            }}
+            error={errors.range}
+          />
+
+          <TouchableOpacity
+            style={styles.checkbox}
+            onPress={() => setDefaultNow(!defaultNow)}
+          >
+            <View style={[styles.checkboxBox, defaultNow && styles.checkboxBoxChecked]}>
+              {defaultNow && <Text style={styles.checkboxCheck}>✓</Text>}
+            </View>
+            <Text style={styles.checkboxLabel}>
+              Default to {fieldType === 'date' ? 'today' : 'now'} on new records
+            </Text>
+          </TouchableOpacity>
+        </Card>
+      )}
+
+      {hasOptions && (
         <Card style={styles.section}>
-          <Text style={styles.sectionTitle}>Multiple Choice Options</Text>
+          <Text style={styles.sectionTitle}>{fieldType === 'checkboxes' ? 'Checkbox Options' : 'Multiple Choice Options'}</Text>
           <Text style={styles.helperText}>Add at least 2 options (max 20)</Text>
           <View style={styles.optionInputContainer}>
             <Input
@@ -232,9 +611,156 @@ const FieldCreateScreen: React.FC<Props> = ({ navigation, route }) => {
         </Card>
       )}
 
+      {fieldType === 'number' && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Number Settings</Text>
+          <Text style={styles.helperText}>Leave any setting empty for no restriction</Text>
+          <View style={styles.limitRow}>
+            <Input
+              label="Minimum"
+              value={numberMin}
+              onChangeText={(text) => {
+                setNumberMin(text);
+                clearError('number');
+              }}
+              placeholder="None"
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.limitInput}
+            />
+            <Input
+              label="Maximum"
+              value={numberMax}
+              onChangeText={(text) => {
+                setNumberMax(text);
+                clearError('number');
+              }}
+              placeholder="None"
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.limitInput}
+            />
+          </View>
+          <View style={styles.limitRow}>
+            <Input
+              label="Decimal places"
+              value={decimals}
+              onChangeText={(text) => {
+                setDecimals(text);
+                clearError('number');
+              }}
+              placeholder="Any"
+              keyboardType="number-pad"
+              containerStyle={styles.limitInput}
+            />
+            <Input
+              label="Step"
+              value={step}
+              onChangeText={(text) => {
+                setStep(text);
+                clearError('number');
+              }}
+              placeholder="None"
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.limitInput}
+            />
+          </View>
+          <Text style={styles.helperText}>0 decimal places allows whole numbers only</Text>
+          <Input
+            label="Unit"
+            value={unit}
+            onChangeText={(text) => {
+              setUnit(text);
+              clearError('number');
+            }}
+            placeholder="e.g. kg or °C"
+          />
+
+          <Text style={styles.subsectionTitle}>Input</Text>
+          <View style={styles.inputStyleRow}>
+            {NUMBER_INPUTS.map((input) => (
+              <TouchableOpacity
+                key={input.value}
+                style={[styles.inputStyleButton, numberInput === input.value && styles.typeButtonActive]}
+                onPress={() => {
+                  setNumberInput(input.value);
+                  clearError('number');
+                }}
+              >
+                <Text style={[styles.typeLabel, numberInput === input.value && styles.typeLabelActive]}>
+                  {input.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {errors.number && <Text style={styles.errorText}>{errors.number}</Text>}
+        </Card>
+      )}
+
+      {fieldType === 'barcode' && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Expected Codes</Text>
+          <Text style={styles.helperText}>Leave empty to accept any code</Text>
+          <Input
+            label="Starts with"
+            value={prefixes}
+            onChangeText={(text) => {
+              setPrefixes(text);
+              clearError('barcode');
+            }}
+            placeholder="e.g. 978, 979"
+            autoCapitalize="none"
+          />
+          <Text style={styles.helperText}>Separate prefixes with commas; a code must start with one of them</Text>
+          <Input
+            label="Pattern"
+            value={pattern}
+            onChangeText={(text) => {
+              setPattern(text);
+              clearError('barcode');
+            }}
+            placeholder="e.g. [A-Z]{3}-\d{4}"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          <Text style={styles.helperText}>A regular expression the whole code must match</Text>
+          {errors.barcode && <Text style={styles.errorText}>{errors.barcode}</Text>}
+        </Card>
+      )}
+
+      {fieldType === 'checkboxes' && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Number of Selections</Text>
+          <Text style={styles.helperText}>Leave empty for no limit; the minimum applies once anything is selected</Text>
+          <View style={styles.limitRow}>
+            <Input
+              label="Minimum"
+              value={minSelected}
+              onChangeText={(text) => {
+                setMinSelected(text);
+                clearError('selection');
+              }}
+              placeholder="None"
+              keyboardType="number-pad"
+              containerStyle={styles.limitInput}
+            />
+            <Input
+              label="Maximum"
+              value={maxSelected}
+              onChangeText={(text) => {
+                setMaxSelected(text);
+                clearError('selection');
+              }}
+              placeholder="None"
+              keyboardType="number-pad"
+              containerStyle={styles.limitInput}
+            />
+          </View>
+          {errors.selection && <Text style={styles.errorText}>{errors.selection}</Text>}
+        </Card>
+      )}
+
       <Button
-        title="Add Field"
-        onPress={handleCreate}
+        title={isEditing ? 'Save Changes' : 'Add Field'}
+        onPress={handleSave}
         loading={loading}
         disabled={loading}
         size="large"
@@ -286,6 +812,9 @@ const styles = StyleSheet.create({
     borderColor: colors.primary,
     backgroundColor: colors.primaryLight + '20',
   },
+  typeButtonDisabled: {
+    opacity: 0.4,
+  },
   typeIcon: {
     fontSize: 32,
     marginBottom: spacing.xs,
@@ -356,6 +885,36 @@ const styles = StyleSheet.create({
     fontSize: typography.bodySmall,
     color: colors.error,
   },
+  subsectionTitle: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  inputStyleRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  inputStyleButton: {
+    flex: 1,
+    borderWidth: 2,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+  },
+  limitRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  limitInput: {
+    flex: 1,
+  },
+  errorText: {
+    fontSize: typography.caption,
+    color: colors.error,
+  },
   button: {
     marginTop: spacing.md,
   },
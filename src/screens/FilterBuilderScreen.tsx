@@ -1,33 +1,75 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity, FlatList } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { RootStackParamList, Field, FilterCriteria, FilterOperator, FilterLogic, Record, LocationValue } from '../types';
+import * as Location from 'expo-location';
+import {
+  RootStackParamList,
+  Field,
+  FilterCriteria,
+  FilterGroup,
+  FilterOperator,
+  FilterLogic,
+  Record,
+  RecordSort,
+} from '../types';
 import { Button, Input, Card, Loading, ErrorView } from '../components';
 import { fieldAPI, recordAPI } from '../services/api';
+import { savedViews } from '../services/savedViews';
 import { colors, spacing, typography, borderRadius } from '../theme';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '../constants/appConstants';
 import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
+import { getErrorMessage, isNetworkError } from '../utils/errors';
+import {
+  FilterPath,
+  addNode,
+  emptyFilterGroup,
+  getConditions,
+  hasFilters,
+  isFilterGroup,
+  removeNode,
+  updateNode,
+} from '../utils/filterTree';
+import {
+  FILTER_OPERATORS,
+  OPERAND_LABELS,
+  createCondition,
+  emptyOperands,
+  getOperatorLabel,
+  getOperatorsForField,
+  isConditionComplete,
+} from '../utils/filterOperators';
+import { isTemporalType, TEMPORAL_FORMATS } from '../utils/dates';
+import { formatFieldValue } from '../utils/fieldValues';
+import { DEFAULT_SORT, isSortableField, sortByField } from '../utils/recordSort';
+import { queryRecords } from '../utils/queryEngine';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'FilterBuilder'>;
 
-const OPERATORS: { value: FilterOperator; label: string }[] = [
-  { value: 'like', label: 'Starts With' },
-  { value: 'ilike', label: 'Contains' },
-  { value: 'eq', label: 'Equals' },
-  { value: 'gt', label: 'Greater Than' },
-  { value: 'lt', label: 'Less Than' },
-  { value: 'gte', label: 'Greater or Equal' },
-  { value: 'lte', label: 'Less or Equal' },
+const DIRECTION_OPTIONS: { value: RecordSort['direction']; label: string }[] = [
+  { value: 'asc', label: 'Ascending' },
+  { value: 'desc', label: 'Descending' },
+];
+
+const LOGIC_OPTIONS: { value: FilterLogic; label: string }[] = [
+  { value: 'and', label: 'ALL (AND)' },
+  { value: 'or', label: 'ANY (OR)' },
 ];
 
 const FilterBuilderScreen: React.FC<Props> = ({ navigation, route }) => {
   const { formId, formName } = route.params;
+  const [viewId, setViewId] = useState<string | undefined>(route.params.viewId);
   const [fields, setFields] = useState<Field[]>([]);
-  const [filters, setFilters] = useState<FilterCriteria[]>([]);
+  const [filterTree, setFilterTree] = useState<FilterGroup>(emptyFilterGroup());
+  const [viewName, setViewName] = useState('');
+  const [viewSort, setViewSort] = useState<RecordSort>(DEFAULT_SORT);
+  const [viewColumns, setViewColumns] = useState<string[]>([]);
+  const [savingView, setSavingView] = useState(false);
   const [loading, setLoading] = useState(true);
   const [searching, setSearching] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [results, setResults] = useState<Record[] | null>(null);
+  const [searchedFilters, setSearchedFilters] = useState<FilterGroup | null>(null);
+  const [localResults, setLocalResults] = useState(false);
 
   useEffect(() => {
     loadFields();
@@ -39,6 +81,14 @@ const FilterBuilderScreen: React.FC<Props> = ({ navigation, route }) => {
       setError(null);
       const data = await fieldAPI.getByFormId(formId);
       setFields(data);
+
+      if (viewId) {
+        const view = await savedViews.get(viewId);
+        setFilterTree(view.filters);
+        setViewName(view.name);
+        setViewSort(view.sort);
+        setViewColumns(view.columns);
+      }
     } catch (err) {
       const errorMessage = getErrorMessage(err);
       setError(errorMessage);
@@ -48,43 +98,103 @@ const FilterBuilderScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
-  const addFilter = () => {
+  /**
+   * Add a condition, or an empty sub-group, to the group at a path
+   */
+  const addToGroup = (path: FilterPath, kind: 'filter' | 'group') => {
     if (fields.length === 0) {
       Alert.alert('No Fields', 'Add fields to the form first');
       return;
     }
 
-    const newFilter: FilterCriteria = {
-      field: fields[0].name,
-      operator: 'ilike',
-      value: '',
-      logic: 'and',
-    };
+    const newFilter = createCondition(fields[0]);
 
-    setFilters([...filters, newFilter]);
+    setFilterTree(addNode(filterTree, path, kind === 'filter' ? newFilter : { logic: 'or', children: [newFilter] }));
   };
 
-  const removeFilter = (index: number) => {
-    setFilters(filters.filter((_, i) => i !== index));
+  const removeFromTree = (path: FilterPath) => {
+    setFilterTree(removeNode(filterTree, path));
   };
 
-  const updateFilter = (index: number, updates: Partial<FilterCriteria>) => {
-    const newFilters = [...filters];
-    newFilters[index] = { ...newFilters[index], ...updates };
-    setFilters(newFilters);
+  const updateFilter = (path: FilterPath, updates: Partial<FilterCriteria>) => {
+    setFilterTree(updateNode(filterTree, path, node => ({ ...node, ...updates } as FilterCriteria)));
   };
 
-  const handleSearch = async () => {
-    const invalidFilters = filters.filter(f => !f.value.trim());
-    if (invalidFilters.length > 0) {
-      Alert.alert('Validation Error', 'All filter values must be filled');
+  /**
+   * Change a condition's field, switching to an operator that fits the new field when needed
+   */
+  const selectField = (path: FilterPath, filter: FilterCriteria, field: Field) => {
+    if (getOperatorsForField(field).includes(filter.operator)) {
+      updateFilter(path, { field: field.name, fieldType: field.field_type });
       return;
     }
+    const operator = getOperatorsForField(field)[0];
+    updateFilter(path, { field: field.name, fieldType: field.field_type, operator, ...emptyOperands(operator) });
+  };
+
+  const selectOperator = (path: FilterPath, filter: FilterCriteria, operator: FilterOperator) => {
+    const sameOperands = FILTER_OPERATORS[operator].operands === FILTER_OPERATORS[filter.operator].operands;
+    updateFilter(path, sameOperands ? { operator } : { operator, ...emptyOperands(operator) });
+  };
+
+  /**
+   * Centre a radius filter on the device's position
+   */
+  const fillCurrentLocation = async (path: FilterPath, values: string[]) => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission Denied', 'Location permission is required to use this feature');
+        return;
+      }
+
+      const location = await Location.getCurrentPositionAsync({});
+      updateFilter(path, {
+        values: [String(location.coords.latitude), String(location.coords.longitude), values[2] ?? ''],
+      });
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || 'Failed to get location. Please try again.');
+      logger.error('Filter location error:', err);
+    }
+  };
+
+  const updateGroup = (path: FilterPath, updates: Partial<Omit<FilterGroup, 'children'>>) => {
+    setFilterTree(updateNode(filterTree, path, node => ({ ...node, ...updates } as FilterGroup)));
+  };
+
+  /**
+   * Check every condition has the operands it needs, alerting the user when not
+   */
+  const validateFilters = (): boolean => {
+    const invalidFilters = getConditions(filterTree).filter(
+      f => !isConditionComplete(f, fields.find(field => field.name === f.field))
+    );
+    if (invalidFilters.length > 0) {
+      Alert.alert('Validation Error', 'All filter values must be filled in correctly');
+      return false;
+    }
+    return true;
+  };
+
+  const handleSearch = async () => {
+    if (!validateFilters()) return;
 
     try {
       setSearching(true);
-      const data = await recordAPI.getByFormId(formId, filters);
+      let data: Record[];
+      let local = false;
+      try {
+        data = await recordAPI.getByFormId(formId, filterTree);
+      } catch (err) {
+        if (!isNetworkError(err)) throw err;
+        // Offline: run the same filters over the records saved on this device
+        data = queryRecords(await recordAPI.getCachedByFormId(formId), filterTree);
+        local = true;
+      }
       setResults(data);
+      setLocalResults(local);
+      setSearchedFilters(filterTree);
     } catch (err) {
       const errorMessage = getErrorMessage(err);
       Alert.alert('Error', errorMessage || 'Failed to search records. Please try again.');
@@ -95,33 +205,314 @@ const FilterBuilderScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   const handleClearFilters = () => {
-    setFilters([]);
+    setFilterTree(emptyFilterGroup());
     setResults(null);
   };
 
+  const toggleColumn = (name: string) => {
+    setViewColumns(viewColumns.includes(name) ? viewColumns.filter(c => c !== name) : [...viewColumns, name]);
+  };
+
+  const handleSaveView = async () => {
+    if (!viewName.trim()) {
+      Alert.alert('Validation Error', 'Please name the view');
+      return;
+    }
+    if (!validateFilters()) return;
+
+    try {
+      setSavingView(true);
+      const view = await savedViews.save(
+        { formId, name: viewName.trim(), filters: filterTree, sort: viewSort, columns: viewColumns },
+        viewId
+      );
+      setViewId(view.id);
+      Alert.alert('Success', SUCCESS_MESSAGES.VIEW_SAVED);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.SAVE_VIEW_FAILED);
+      logger.error('Save view error:', err);
+    } finally {
+      setSavingView(false);
+    }
+  };
+
+  const handleDeleteView = () => {
+    if (!viewId) return;
+
+    Alert.alert('Delete View', `Are you sure you want to delete "${viewName}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await savedViews.delete(viewId);
+            Alert.alert('Success', SUCCESS_MESSAGES.VIEW_DELETED, [{ text: 'OK', onPress: () => navigation.goBack() }]);
+          } catch (err) {
+            const errorMessage = getErrorMessage(err);
+            Alert.alert('Error', errorMessage || ERROR_MESSAGES.DELETE_VIEW_FAILED);
+            logger.error('Delete view error:', err);
+          }
+        },
+      },
+    ]);
+  };
+
   /**
    * Render record value as a display string
-   * Handles location objects, images, and null values
+   * Images are shown as a placeholder; other values are formatted for their field's type
    *
-   * @param key - Field name (unused but kept for consistency)
+   * @param key - Field name
    * @param value - The value to render
    * @returns Formatted string representation of the value
    */
   const renderValue = (key: string, value: any): string => {
-    if (value === null || value === undefined) {
-      return 'N/A';
+    if (typeof value === 'string' && value.startsWith('data:image')) {
+      return '[Image]';
     }
 
-    if (typeof value === 'object' && 'lat' in value && 'lng' in value) {
-      const loc = value as LocationValue;
-      return `${loc.lat.toFixed(6)}, ${loc.lng.toFixed(6)}`;
+    return formatFieldValue(value, fields.find(f => f.name === key));
+  };
+
+  /**
+   * Value editor for a condition, chosen by its operator and field type:
+   * option chips for multiple choice and checkboxes fields, numeric keyboards for number fields,
+   * and one input per operand for ranges and areas
+   */
+  const renderOperands = (filter: FilterCriteria, path: FilterPath, field?: Field) => {
+    const kind = FILTER_OPERATORS[filter.operator].operands;
+    const values = filter.values ?? [];
+    const choices =
+      field?.field_type === 'multiple choice' || field?.field_type === 'checkboxes' ? field.options ?? [] : null;
+    const dateFormat = isTemporalType(field?.field_type) ? TEMPORAL_FORMATS[field.field_type] : null;
+
+    if (kind === 'none') {
+      return null;
     }
 
-    if (typeof value === 'string' && value.startsWith('data:image')) {
-      return '[Image]';
+    if (choices && (kind === 'single' || kind === 'list')) {
+      const isSelected = (choice: string) => (kind === 'single' ? filter.value === choice : values.includes(choice));
+      const toggle = (choice: string) =>
+        kind === 'single'
+          ? updateFilter(path, { value: choice })
+          : updateFilter(path, {
+              values: isSelected(choice) ? values.filter(v => v !== choice) : [...values, choice],
+            });
+
+      return (
+        <>
+          <Text style={styles.label}>{kind === 'single' ? 'Value' : 'Values'}</Text>
+          <View style={styles.choiceOptions}>
+            {choices.map((choice) => (
+              <TouchableOpacity
+                key={choice}
+                style={[styles.option, isSelected(choice) && styles.optionSelected]}
+                onPress={() => toggle(choice)}
+              >
+                <Text style={[styles.optionText, isSelected(choice) && styles.optionTextSelected]}>{choice}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </>
+      );
+    }
+
+    if (kind === 'single') {
+      return (
+        <Input
+          label="Value"
+          value={filter.value}
+          onChangeText={(text) => updateFilter(path, { value: text })}
+          placeholder={dateFormat ?? (field?.is_num ? 'Enter a number' : 'Enter filter value')}
+          keyboardType={field?.is_num ? 'numeric' : dateFormat ? 'numbers-and-punctuation' : 'default'}
+          containerStyle={styles.valueInput}
+        />
+      );
+    }
+
+    if (kind === 'list') {
+      return (
+        <Input
+          label="Values"
+          value={filter.value}
+          onChangeText={(text) =>
+            updateFilter(path, { value: text, values: text.split(',').map(v => v.trim()).filter(Boolean) })
+          }
+          placeholder="Comma-separated values"
+          keyboardType={field?.is_num ? 'numbers-and-punctuation' : 'default'}
+          containerStyle={styles.valueInput}
+        />
+      );
     }
 
-    return String(value);
+    return (
+      <>
+        <View style={styles.operandRow}>
+          {OPERAND_LABELS[kind].map((label, index) => (
+            <Input
+              key={label}
+              label={dateFormat && kind === 'range' ? (index === 0 ? 'From' : 'To') : label}
+              value={values[index] ?? ''}
+              placeholder={dateFormat ?? undefined}
+              onChangeText={(text) =>
+                updateFilter(path, { values: OPERAND_LABELS[kind].map((_, i) => (i === index ? text : values[i] ?? '')) })
+              }
+              keyboardType="numbers-and-punctuation"
+              containerStyle={styles.operandInput}
+            />
+          ))}
+        </View>
+        {kind === 'radius' && (
+          <Button
+            title="Use Current Location"
+            onPress={() => fillCurrentLocation(path, values)}
+            variant="ghost"
+            size="small"
+          />
+        )}
+      </>
+    );
+  };
+
+  const renderFilter = (filter: FilterCriteria, path: FilterPath) => {
+    const field = fields.find(f => f.name === filter.field);
+
+    return (
+      <Card key={path.join('.')} variant="outlined" style={styles.filterCard}>
+        <View style={styles.filterHeader}>
+          <Text style={styles.filterNumber}>Filter {path[path.length - 1] + 1}</Text>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={[styles.notToggle, filter.negate && styles.optionSelected]}
+              onPress={() => updateFilter(path, { negate: !filter.negate })}
+            >
+              <Text style={[styles.optionText, filter.negate && styles.optionTextSelected]}>NOT</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => removeFromTree(path)}>
+              <Text style={styles.removeText}>Remove</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Field Selection */}
+        <Text style={styles.label}>Field</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+          <View style={styles.options}>
+            {fields.map((option) => (
+              <TouchableOpacity
+                key={option.id}
+                style={[
+                  styles.option,
+                  filter.field === option.name && styles.optionSelected,
+                ]}
+                onPress={() => selectField(path, filter, option)}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    filter.field === option.name && styles.optionTextSelected,
+                  ]}
+                >
+                  {option.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+
+        {/* Operator Selection */}
+        <Text style={styles.label}>Operator</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
+          <View style={styles.options}>
+            {getOperatorsForField(field).map((operator) => (
+              <TouchableOpacity
+                key={operator}
+                style={[
+                  styles.option,
+                  filter.operator === operator && styles.optionSelected,
+                ]}
+                onPress={() => selectOperator(path, filter, operator)}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    filter.operator === operator && styles.optionTextSelected,
+                  ]}
+                >
+                  {getOperatorLabel(operator, field)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </ScrollView>
+
+        {/* Value Input */}
+        {renderOperands(filter, path, field)}
+      </Card>
+    );
+  };
+
+  /**
+   * Render a group: its logic (ALL/ANY, optionally negated), its children and buttons to extend it
+   * The root group is the top-level criteria; nested groups are indented and can be removed
+   */
+  const renderGroup = (group: FilterGroup, path: FilterPath): React.ReactNode => {
+    const isRoot = path.length === 0;
+
+    return (
+      <View key={path.join('.')} style={isRoot ? undefined : styles.groupCard}>
+        <View style={styles.filterHeader}>
+          <Text style={styles.filterNumber}>{isRoot ? 'Match' : `Group ${path[path.length - 1] + 1}`}</Text>
+          {!isRoot && (
+            <TouchableOpacity onPress={() => removeFromTree(path)}>
+              <Text style={styles.removeText}>Remove Group</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <View style={styles.logicOptions}>
+          {LOGIC_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.logicOption, group.logic === option.value && styles.optionSelected]}
+              onPress={() => updateGroup(path, { logic: option.value })}
+            >
+              <Text style={[styles.optionText, group.logic === option.value && styles.optionTextSelected]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.logicOption, group.negate && styles.optionSelected]}
+            onPress={() => updateGroup(path, { negate: !group.negate })}
+          >
+            <Text style={[styles.optionText, group.negate && styles.optionTextSelected]}>NOT</Text>
+          </TouchableOpacity>
+        </View>
+
+        {group.children.map((child, index) =>
+          isFilterGroup(child) ? renderGroup(child, [...path, index]) : renderFilter(child, [...path, index])
+        )}
+
+        <View style={styles.actions}>
+          <Button
+            title="Add Filter"
+            onPress={() => addToGroup(path, 'filter')}
+            variant="secondary"
+            size="small"
+            style={styles.actionButton}
+          />
+          <Button
+            title="Add Group"
+            onPress={() => addToGroup(path, 'group')}
+            variant="secondary"
+            size="small"
+            style={styles.actionButton}
+          />
+        </View>
+      </View>
+    );
   };
 
   if (loading) {
@@ -138,155 +529,144 @@ const FilterBuilderScreen: React.FC<Props> = ({ navigation, route }) => {
         <Card style={styles.section}>
           <Text style={styles.sectionTitle}>Build Filter Criteria</Text>
           <Text style={styles.subtitle}>
-            Create filters to search records. Multiple filters can use AND or OR logic.
+            Match all (AND) or any (OR) of the filters. Add groups to combine both, and use NOT to exclude matches.
           </Text>
 
-          {filters.map((filter, index) => (
-            <Card key={index} variant="outlined" style={styles.filterCard}>
-              <View style={styles.filterHeader}>
-                <Text style={styles.filterNumber}>Filter {index + 1}</Text>
-                <TouchableOpacity onPress={() => removeFilter(index)}>
-                  <Text style={styles.removeText}>Remove</Text>
-                </TouchableOpacity>
-              </View>
-
-              {/* Field Selection */}
-              <Text style={styles.label}>Field</Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
-                <View style={styles.options}>
-                  {fields.map((field) => (
-                    <TouchableOpacity
-                      key={field.id}
-                      style={[
-                        styles.option,
-                        filter.field === field.name && styles.optionSelected,
-                      ]}
-                      onPress={() => updateFilter(index, { field: field.name })}
-                    >
-                      <Text
-                        style={[
-                          styles.optionText,
-                          filter.field === field.name && styles.optionTextSelected,
-                        ]}
-                      >
-                        {field.name}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </ScrollView>
-
-              {/* Operator Selection */}
-              <Text style={styles.label}>Operator</Text>
-              <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.optionsScroll}>
-                <View style={styles.options}>
-                  {OPERATORS.map((op) => (
-                    <TouchableOpacity
-                      key={op.value}
-                      style={[
-                        styles.option,
-                        filter.operator === op.value && styles.optionSelected,
-                      ]}
-                      onPress={() => updateFilter(index, { operator: op.value })}
-                    >
-                      <Text
-                        style={[
-                          styles.optionText,
-                          filter.operator === op.value && styles.optionTextSelected,
-                        ]}
-                      >
-                        {op.label}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
-                </View>
-              </ScrollView>
-
-              {/* Value Input */}
-              <Input
-                label="Value"
-                value={filter.value}
-                onChangeText={(text) => updateFilter(index, { value: text })}
-                placeholder="Enter filter value"
-                containerStyle={styles.valueInput}
-              />
+          {renderGroup(filterTree, [])}
 
-              {/* Logic Selection (only for non-last filters) */}
-              {index < filters.length - 1 && (
-                <>
-                  <Text style={styles.label}>Logic for Next Filter</Text>
-                  <View style={styles.logicOptions}>
-                    <TouchableOpacity
-                      style={[
-                        styles.logicOption,
-                        filter.logic === 'and' && styles.optionSelected,
-                      ]}
-                      onPress={() => updateFilter(index, { logic: 'and' })}
-                    >
-                      <Text
-                        style={[
-                          styles.optionText,
-                          filter.logic === 'and' && styles.optionTextSelected,
-                        ]}
-                      >
-                        AND
-                      </Text>
-                    </TouchableOpacity>
-                    <TouchableOpacity
-                      style={[
-                        styles.logicOption,
-                        filter.logic === 'or' && styles.optionSelected,
-                      ]}
-                      onPress={() => updateFilter(index, { logic: 'or' })}
-                    >
-                      <Text
-                        style={[
-                          styles.optionText,
-                          filter.logic === 'or' && styles.optionTextSelected,
-                        ]}
-                      >
-                        OR
-                      </Text>
-                    </TouchableOpacity>
-                  </View>
-                </>
-              )}
-            </Card>
-          ))}
-
-          <View style={styles.actions}>
-            <Button
-              title="Add Filter"
-              onPress={addFilter}
-              variant="secondary"
-              size="small"
-              style={styles.actionButton}
-            />
-            <Button
-              title="Clear All"
-              onPress={handleClearFilters}
-              variant="danger"
-              size="small"
-              style={styles.actionButton}
-            />
-          </View>
+          <Button
+            title="Clear All"
+            onPress={handleClearFilters}
+            variant="danger"
+            size="small"
+          />
 
           <Button
             title="Search Records"
             onPress={handleSearch}
             loading={searching}
-            disabled={searching || filters.length === 0}
+            disabled={searching || !hasFilters(filterTree)}
             size="large"
             style={styles.searchButton}
           />
         </Card>
 
+        {/* Saved View Section */}
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>{viewId ? 'Saved View' : 'Save as View'}</Text>
+          <Text style={styles.subtitle}>
+            Keep these filters with a sort order and columns to open them again from the form or its records.
+          </Text>
+
+          <Input
+            label="View Name"
+            value={viewName}
+            onChangeText={setViewName}
+            placeholder="e.g. Unreviewed sites in zone B"
+            containerStyle={styles.valueInput}
+          />
+
+          <Text style={styles.label}>Sort By</Text>
+          <View style={styles.choiceOptions}>
+            {[undefined, ...fields.filter(isSortableField)].map((field) => {
+              const selected = (field?.name ?? null) === (viewSort.field ?? null);
+              return (
+                <TouchableOpacity
+                  key={field?.id ?? 'id'}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => setViewSort(sortByField(field, viewSort.direction))}
+                >
+                  <Text style={[styles.optionText, selected && styles.optionTextSelected]}>
+                    {field ? field.name : 'Record #'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <View style={styles.logicOptions}>
+            {DIRECTION_OPTIONS.map((option) => (
+              <TouchableOpacity
+                key={option.value}
+                style={[styles.logicOption, viewSort.direction === option.value && styles.optionSelected]}
+                onPress={() => setViewSort({ ...viewSort, direction: option.value })}
+              >
+                <Text style={[styles.optionText, viewSort.direction === option.value && styles.optionTextSelected]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Columns {viewColumns.length === 0 && '(all)'}</Text>
+          <View style={styles.choiceOptions}>
+            {fields.map((field) => {
+              const position = viewColumns.indexOf(field.name);
+              return (
+                <TouchableOpacity
+                  key={field.id}
+                  style={[styles.option, position >= 0 && styles.optionSelected]}
+                  onPress={() => toggleColumn(field.name)}
+                >
+                  <Text style={[styles.optionText, position >= 0 && styles.optionTextSelected]}>
+                    {position >= 0 ? `${position + 1}. ` : ''}{field.name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <View style={styles.actions}>
+            <Button
+              title={viewId ? 'Update View' : 'Save View'}
+              onPress={handleSaveView}
+              loading={savingView}
+              disabled={savingView}
+              size="small"
+              style={styles.actionButton}
+            />
+            {viewId && (
+              <Button
+                title="Open View"
+                onPress={() => navigation.navigate('RecordList', { formId, formName, viewId })}
+                variant="secondary"
+                size="small"
+                style={styles.actionButton}
+              />
+            )}
+          </View>
+          {viewId && (
+            <Button title="Delete View" onPress={handleDeleteView} variant="danger" size="small" />
+          )}
+        </Card>
+
         {/* Results Section */}
         {results !== null && (
           <Card style={styles.section}>
-            <Text style={styles.sectionTitle}>
-              Results ({results.length} {results.length === 1 ? 'record' : 'records'})
-            </Text>
+            <View style={styles.resultsHeader}>
+              <Text style={styles.sectionTitle}>
+                Results ({results.length} {results.length === 1 ? 'record' : 'records'})
+              </Text>
+              {localResults && (
+                <View style={styles.localBadge}>
+                  <Text style={styles.localBadgeText}>Local data</Text>
+                </View>
+              )}
+            </View>
+            {localResults && (
+              <Text style={styles.subtitle}>
+                You're offline, so only records saved on this device were searched.
+              </Text>
+            )}
+
+            {results.length > 0 && (
+              <Button
+                title="Export Results"
+                onPress={() => navigation.navigate('Export', { formId, formName, filters: searchedFilters ?? undefined })}
+                variant="secondary"
+                size="small"
+                style={styles.exportButton}
+              />
+            )}
 
             {results.length === 0 ? (
               <View style={styles.emptyContainer}>
@@ -357,6 +737,24 @@ const styles = StyleSheet.create({
     fontSize: typography.bodySmall,
     color: colors.error,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
+  notToggle: {
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  groupCard: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.primary,
+    paddingLeft: spacing.md,
+    marginBottom: spacing.md,
+  },
   label: {
     fontSize: typography.bodySmall,
     fontWeight: typography.semibold,
@@ -394,6 +792,22 @@ const styles = StyleSheet.create({
   valueInput: {
     marginBottom: spacing.sm,
   },
+  choiceOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  operandRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  operandInput: {
+    flex: 1,
+    minWidth: '40%',
+    marginBottom: spacing.sm,
+  },
   logicOptions: {
     flexDirection: 'row',
     gap: spacing.sm,
@@ -419,6 +833,27 @@ const styles = StyleSheet.create({
   searchButton: {
     marginTop: spacing.md,
   },
+  exportButton: {
+    marginBottom: spacing.md,
+  },
+  resultsHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  localBadge: {
+    backgroundColor: colors.warning + '20',
+    borderWidth: 1,
+    borderColor: colors.warning,
+    borderRadius: borderRadius.full,
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+  },
+  localBadgeText: {
+    fontSize: typography.caption,
+    color: colors.warning,
+    fontWeight: typography.semibold,
+  },
   resultCard: {
     marginBottom: spacing.md,
     padding: spacing.md,
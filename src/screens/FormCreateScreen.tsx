@@ -1,19 +1,19 @@
 import React, { useState } from 'react';
-import { View, StyleSheet, ScrollView, Alert } from 'react-native';
+import { View, StyleSheet, ScrollView } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { RootStackParamList } from '../types';
+import { RootStackParamList, Form } from '../types';
 import { Button, Input } from '../components';
 import { formAPI } from '../services/api';
+import { outbox } from '../services/outbox';
+import { createOptimistically } from '../services/optimistic';
 import { colors, spacing } from '../theme';
-import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
+import { ERROR_MESSAGES } from '../constants/appConstants';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'FormCreate'>;
 
 const FormCreateScreen: React.FC<Props> = ({ navigation }) => {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
-  const [loading, setLoading] = useState(false);
   const [errors, setErrors] = useState<{ name?: string; description?: string }>({});
 
   const validate = (): boolean => {
@@ -31,28 +31,25 @@ const FormCreateScreen: React.FC<Props> = ({ navigation }) => {
     return Object.keys(newErrors).length === 0;
   };
 
-  const handleCreate = async () => {
+  const handleCreate = () => {
     if (!validate()) return;
 
-    try {
-      setLoading(true);
-      const form = await formAPI.create({
-        name: name.trim(),
-        description: description.trim(),
-      });
-      Alert.alert('Success', 'Form created successfully', [
-        {
-          text: 'OK',
-          onPress: () => navigation.replace('FormDetail', { formId: form.id, formName: form.name }),
-        },
-      ]);
-    } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      Alert.alert('Error', errorMessage || 'Failed to create form. Please try again.');
-      logger.error('Form creation error:', err);
-    } finally {
-      setLoading(false);
-    }
+    const newForm = {
+      name: name.trim(),
+      description: description.trim(),
+    };
+
+    // The new form shows in the list straight away and is removed again if saving fails
+    createOptimistically<Form>({
+      entity: 'form',
+      item: newForm,
+      failureMessage: ERROR_MESSAGES.CREATE_FORM_FAILED,
+      commit: () => formAPI.create(newForm),
+      queue: async () => {
+        await outbox.enqueue({ type: 'form.create', payload: newForm }, `Create form "${newForm.name}"`);
+      },
+    });
+    navigation.goBack();
   };
 
   return (
@@ -92,8 +89,6 @@ const FormCreateScreen: React.FC<Props> = ({ navigation }) => {
       <Button
         title="Create Form"
         onPress={handleCreate}
-        loading={loading}
-        disabled={loading}
         size="large"
         style={styles.button}
       />
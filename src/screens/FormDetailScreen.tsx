@@ -1,40 +1,46 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
-import { RootStackParamList, Field } from '../types';
-import { Button, Card, Loading, ErrorView } from '../components';
+import { RootStackParamList, Field, SavedView } from '../types';
+import { Button, Card, Loading, ErrorView, DraggableList } from '../components';
 import { fieldAPI } from '../services/api';
+import { outbox } from '../services/outbox';
+import { savedViews } from '../services/savedViews';
+import { dataStore, fieldsQuery, isPending } from '../services/dataStore';
+import { deleteWithUndo } from '../services/optimistic';
+import { useFields } from '../hooks/useStore';
 import { colors, spacing, typography } from '../theme';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES } from '../constants/appConstants';
 import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
+import { getErrorMessage, isNetworkError } from '../utils/errors';
+import { getConditions } from '../utils/filterTree';
+import { describeSort } from '../utils/recordSort';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'FormDetail'>;
 
 const FormDetailScreen: React.FC<Props> = ({ navigation, route }) => {
   const { formId, formName } = route.params;
-  const [fields, setFields] = useState<Field[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data, loading, error, refresh } = useFields(formId);
+  const [dragging, setDragging] = useState(false);
+  const [views, setViews] = useState<SavedView[]>([]);
 
-  const loadFields = async () => {
+  // Sorted here so a new order shows before the server has confirmed it
+  const fields = useMemo(() => [...(data ?? [])].sort((a, b) => a.order_index - b.order_index), [data]);
+  const savedFields = fields.filter(field => !isPending(field));
+  const pendingFields = fields.filter(isPending);
+
+  const loadViews = async () => {
     try {
-      setLoading(true);
-      setError(null);
-      const data = await fieldAPI.getByFormId(formId);
-      setFields(data);
+      setViews(await savedViews.getByForm(formId));
     } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
-      logger.error('Load fields error:', err);
-    } finally {
-      setLoading(false);
+      logger.error('Load views error:', err);
     }
   };
 
   useFocusEffect(
     useCallback(() => {
-      loadFields();
+      loadViews();
       // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [])
   );
@@ -48,21 +54,59 @@ const FormDetailScreen: React.FC<Props> = ({ navigation, route }) => {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await fieldAPI.delete(id);
-              loadFields();
-            } catch (err) {
-              const errorMessage = getErrorMessage(err);
-              Alert.alert('Error', errorMessage || 'Failed to delete field');
-              logger.error('Delete field error:', err);
-            }
-          },
+          onPress: () =>
+            deleteWithUndo({
+              entity: 'field',
+              id,
+              message: `Deleted field "${name}"`,
+              failureMessage: ERROR_MESSAGES.DELETE_FIELD_FAILED,
+              commit: () => fieldAPI.delete(id),
+              // Close the gap left in order_index by the deleted field, in the order shown now
+              afterCommit: async () => {
+                const current = dataStore.getSnapshot<Field>(fieldsQuery(formId).key).data ?? [];
+                await fieldAPI.reorder(
+                  current
+                    .filter(field => field.id !== id && !isPending(field))
+                    .sort((a, b) => a.order_index - b.order_index)
+                );
+              },
+              operation: { type: 'field.delete', id },
+              description: `Delete field "${name}" from ${formName}`,
+            }),
         },
       ]
     );
   };
 
+  /**
+   * Persist a new field order after a drag
+   * The list updates immediately and is reloaded from the server if saving fails
+   */
+  const handleReorder = async (reordered: Field[]) => {
+    const renumbered = reordered.map((field, index) => ({ ...field, order_index: index }));
+    dataStore.updateLocally('field', renumbered);
+
+    try {
+      await fieldAPI.reorder(reordered);
+    } catch (err) {
+      if (isNetworkError(err)) {
+        const changed = renumbered.filter((field, index) => reordered[index].order_index !== index);
+        for (const field of changed) {
+          await outbox.enqueue(
+            { type: 'field.update', id: field.id, payload: { order_index: field.order_index } },
+            `Move field "${field.name}" to position ${field.order_index + 1}`
+          );
+        }
+        Alert.alert('Queued', SUCCESS_MESSAGES.QUEUED_OFFLINE);
+        return;
+      }
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.REORDER_FIELDS_FAILED);
+      logger.error('Reorder fields error:', err);
+      refresh();
+    }
+  };
+
   const getFieldTypeIcon = (type: string): string => {
     switch (type) {
       case 'text':
@@ -75,6 +119,20 @@ const FormDetailScreen: React.FC<Props> = ({ navigation, route }) => {
         return '📍';
       case 'image':
         return '📷';
+      case 'date':
+        return '📅';
+      case 'time':
+        return '🕒';
+      case 'datetime':
+        return '🗓️';
+      case 'checkboxes':
+        return '✅';
+      case 'number':
+        return '🔢';
+      case 'boolean':
+        return '🔘';
+      case 'barcode':
+        return '🏷️';
       default:
         return '📝';
     }
@@ -84,13 +142,13 @@ const FormDetailScreen: React.FC<Props> = ({ navigation, route }) => {
     return <Loading message="Loading fields..." />;
   }
 
-  if (error) {
-    return <ErrorView message={error} onRetry={loadFields} />;
+  if (error && !data) {
+    return <ErrorView message={error} onRetry={refresh} />;
   }
 
   return (
     <View style={styles.container}>
-      <ScrollView contentContainerStyle={styles.content}>
+      <ScrollView contentContainerStyle={styles.content} scrollEnabled={!dragging}>
         <Card style={styles.section}>
           <Text style={styles.sectionTitle}>Quick Actions</Text>
           <Button
@@ -106,6 +164,57 @@ const FormDetailScreen: React.FC<Props> = ({ navigation, route }) => {
             size="large"
             style={styles.actionButton}
           />
+          <Button
+            title="Import CSV"
+            onPress={() => navigation.navigate('Import', { formId, formName })}
+            variant="secondary"
+            size="large"
+            style={styles.actionButton}
+          />
+        </Card>
+
+        <Card style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Saved Views</Text>
+            <Button
+              title="New View"
+              onPress={() => navigation.navigate('FilterBuilder', { formId, formName })}
+              size="small"
+            />
+          </View>
+
+          {views.length === 0 ? (
+            <Text style={styles.hint}>Save filters from the filter screen to reopen them here</Text>
+          ) : (
+            views.map(view => {
+              const filterCount = getConditions(view.filters).length;
+              return (
+                <TouchableOpacity
+                  key={view.id}
+                  style={styles.fieldItem}
+                  onPress={() => navigation.navigate('RecordList', { formId, formName, viewId: view.id })}
+                >
+                  <View style={styles.fieldHeader}>
+                    <Text style={styles.fieldIcon}>🔖</Text>
+                    <View style={styles.fieldInfo}>
+                      <Text style={styles.fieldName}>{view.name}</Text>
+                      <Text style={styles.fieldType}>
+                        {filterCount} {filterCount === 1 ? 'filter' : 'filters'}
+                        {` · ${describeSort(view.sort)}`}
+                        {view.columns.length > 0 && ` · ${view.columns.length} columns`}
+                      </Text>
+                    </View>
+                    <TouchableOpacity
+                      onPress={() => navigation.navigate('FilterBuilder', { formId, formName, viewId: view.id })}
+                      style={styles.editButton}
+                    >
+                      <Text style={styles.editText}>Edit</Text>
+                    </TouchableOpacity>
+                  </View>
+                </TouchableOpacity>
+              );
+            })
+          )}
         </Card>
 
         <Card style={styles.section}>
@@ -125,31 +234,60 @@ const FormDetailScreen: React.FC<Props> = ({ navigation, route }) => {
               <Text style={styles.emptySubtext}>Add fields to start collecting data</Text>
             </View>
           ) : (
-            fields.map((field) => (
-              <View key={field.id} style={styles.fieldItem}>
-                <View style={styles.fieldHeader}>
-                  <Text style={styles.fieldIcon}>{getFieldTypeIcon(field.field_type)}</Text>
-                  <View style={styles.fieldInfo}>
-                    <Text style={styles.fieldName}>
-                      {field.name}
-                      {field.required && <Text style={styles.required}> *</Text>}
-                    </Text>
-                    <Text style={styles.fieldType}>{field.field_type}</Text>
+            <>
+              {savedFields.length > 1 && (
+                <Text style={styles.hint}>Drag ☰ to reorder fields</Text>
+              )}
+              <DraggableList
+                data={savedFields}
+                keyExtractor={(field) => field.id.toString()}
+                onReorder={handleReorder}
+                onDragStateChange={setDragging}
+                renderItem={(field, handle) => (
+                  <View style={styles.fieldItem}>
+                    <View style={styles.fieldHeader}>
+                      {handle}
+                      <Text style={styles.fieldIcon}>{getFieldTypeIcon(field.field_type)}</Text>
+                      <View style={styles.fieldInfo}>
+                        <Text style={styles.fieldName}>
+                          {field.name}
+                          {field.required && <Text style={styles.required}> *</Text>}
+                        </Text>
+                        <Text style={styles.fieldType}>{field.field_type}</Text>
+                      </View>
+                      <TouchableOpacity
+                        onPress={() => navigation.navigate('FieldEdit', { formId, fieldId: field.id })}
+                        style={styles.editButton}
+                      >
+                        <Text style={styles.editText}>Edit</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        onPress={() => handleDeleteField(field.id, field.name)}
+                        style={styles.deleteButton}
+                      >
+                        <Text style={styles.deleteText}>Delete</Text>
+                      </TouchableOpacity>
+                    </View>
+                    {field.options && field.options.length > 0 && (
+                      <Text style={styles.options}>
+                        Options: {field.options.join(', ')}
+                      </Text>
+                    )}
                   </View>
-                  <TouchableOpacity
-                    onPress={() => handleDeleteField(field.id, field.name)}
-                    style={styles.deleteButton}
-                  >
-                    <Text style={styles.deleteText}>Delete</Text>
-                  </TouchableOpacity>
-                </View>
-                {field.options && field.options.length > 0 && (
-                  <Text style={styles.options}>
-                    Options: {field.options.join(', ')}
-                  </Text>
                 )}
-              </View>
-            ))
+              />
+              {pendingFields.map(field => (
+                <View key={field.id} style={[styles.fieldItem, styles.pendingItem]}>
+                  <View style={styles.fieldHeader}>
+                    <Text style={styles.fieldIcon}>{getFieldTypeIcon(field.field_type)}</Text>
+                    <View style={styles.fieldInfo}>
+                      <Text style={styles.fieldName}>{field.name}</Text>
+                      <Text style={styles.fieldType}>Saving…</Text>
+                    </View>
+                  </View>
+                </View>
+              ))}
+            </>
           )}
         </Card>
       </ScrollView>
@@ -188,6 +326,9 @@ const styles = StyleSheet.create({
     borderBottomColor: colors.borderLight,
     paddingVertical: spacing.md,
   },
+  pendingItem: {
+    opacity: 0.6,
+  },
   fieldHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -216,7 +357,20 @@ const styles = StyleSheet.create({
     fontSize: typography.bodySmall,
     color: colors.textTertiary,
     marginTop: spacing.xs,
-    marginLeft: 32,
+    marginLeft: 72,
+  },
+  hint: {
+    fontSize: typography.caption,
+    color: colors.textTertiary,
+    marginBottom: spacing.sm,
+  },
+  editButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  editText: {
+    fontSize: typography.bodySmall,
+    color: colors.primary,
   },
   deleteButton: {
     paddingHorizontal: spacing.sm,
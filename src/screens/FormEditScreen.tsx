@@ -4,9 +4,11 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { Button, Input, Loading, ErrorView } from '../components';
 import { formAPI } from '../services/api';
+import { outbox } from '../services/outbox';
 import { colors, spacing } from '../theme';
+import { SUCCESS_MESSAGES } from '../constants/appConstants';
 import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
+import { getErrorMessage, isNetworkError } from '../utils/errors';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'FormEdit'>;
 
@@ -57,12 +59,14 @@ const FormEditScreen: React.FC<Props> = ({ navigation, route }) => {
   const handleUpdate = async () => {
     if (!validate()) return;
 
+    const changes = {
+      name: name.trim(),
+      description: description.trim(),
+    };
+
     try {
       setSaving(true);
-      await formAPI.update(formId, {
-        name: name.trim(),
-        description: description.trim(),
-      });
+      await formAPI.update(formId, changes);
       Alert.alert('Success', 'Form updated successfully', [
         {
           text: 'OK',
@@ -70,6 +74,16 @@ const FormEditScreen: React.FC<Props> = ({ navigation, route }) => {
         },
       ]);
     } catch (err) {
+      if (isNetworkError(err)) {
+        await outbox.enqueue({ type: 'form.update', id: formId, payload: changes }, `Update form "${changes.name}"`);
+        Alert.alert('Queued', SUCCESS_MESSAGES.QUEUED_OFFLINE, [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]);
+        return;
+      }
       const errorMessage = getErrorMessage(err);
       Alert.alert('Error', errorMessage || 'Failed to update form. Please try again.');
       logger.error('Update form error:', err);
@@ -1,18 +1,19 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, Platform } from 'react-native';
 import { CompositeScreenProps } from '@react-navigation/native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
-import { TabParamList, RootStackParamList, Form } from '../types';
+import { TabParamList, RootStackParamList } from '../types';
 import { Button, Card, Loading, ErrorView } from '../components';
 import { ScreenWrapper } from '../components/ScreenWrapper';
 import { SideDrawer } from '../components/SideDrawer';
 import { formAPI } from '../services/api';
+import { savedViews } from '../services/savedViews';
+import { isPending } from '../services/dataStore';
+import { deleteWithUndo } from '../services/optimistic';
+import { useForms } from '../hooks/useStore';
 import { colors, spacing, typography } from '../theme';
 import { getStandardMenuItems } from '../constants/navigationMenu';
-import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
 import { ERROR_MESSAGES } from '../constants/appConstants';
 
 type Props = CompositeScreenProps<
@@ -21,34 +22,12 @@ type Props = CompositeScreenProps<
 >;
 
 const FormListScreen: React.FC<Props> = ({ navigation }) => {
-  const [forms, setForms] = useState<Form[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data, loading, error, refresh } = useForms();
+  const forms = data ?? [];
   const [drawerVisible, setDrawerVisible] = useState(false);
 
   const menuItems = getStandardMenuItems(navigation);
 
-  const loadForms = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await formAPI.getAll();
-      setForms(data);
-    } catch (err) {
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
-      logger.error('Load forms error:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useFocusEffect(
-    useCallback(() => {
-      loadForms();
-    }, [])
-  );
-
   const handleDelete = (id: number, name: string) => {
     Alert.alert(
       'Delete Form',
@@ -58,16 +37,17 @@ const FormListScreen: React.FC<Props> = ({ navigation }) => {
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await formAPI.delete(id);
-              loadForms();
-            } catch (err) {
-              const errorMessage = getErrorMessage(err);
-              Alert.alert('Error', errorMessage || ERROR_MESSAGES.DELETE_FORM_FAILED);
-              logger.error('Delete form error:', err);
-            }
-          },
+          onPress: () =>
+            deleteWithUndo({
+              entity: 'form',
+              id,
+              message: `Deleted "${name}"`,
+              failureMessage: ERROR_MESSAGES.DELETE_FORM_FAILED,
+              commit: () => formAPI.delete(id),
+              afterCommit: () => savedViews.removeForForm(id),
+              operation: { type: 'form.delete', id },
+              description: `Delete form "${name}"`,
+            }),
         },
       ]
     );
@@ -81,10 +61,10 @@ const FormListScreen: React.FC<Props> = ({ navigation }) => {
     );
   }
 
-  if (error) {
+  if (error && !data) {
     return (
       <ScreenWrapper title="My Forms" onMenuPress={() => setDrawerVisible(true)}>
-        <ErrorView message={error} onRetry={loadForms} />
+        <ErrorView message={error} onRetry={refresh} />
       </ScreenWrapper>
     );
   }
@@ -103,7 +83,13 @@ const FormListScreen: React.FC<Props> = ({ navigation }) => {
             <Text style={styles.emptySubtext}>Create your first form to get started</Text>
           </View>
         }
-        renderItem={({ item }) => (
+        renderItem={({ item }) => isPending(item) ? (
+          <Card style={{ ...styles.formCard, ...styles.pendingCard }}>
+            <Text style={styles.formName}>{item.name}</Text>
+            <Text style={styles.formDescription}>{item.description}</Text>
+            <Text style={styles.pendingText}>Saving…</Text>
+          </Card>
+        ) : (
           <Card style={styles.formCard}>
             <TouchableOpacity
               onPress={() => navigation.navigate('FormDetail', { formId: item.id, formName: item.name })}
@@ -165,6 +151,14 @@ const styles = StyleSheet.create({
   formCard: {
     marginBottom: spacing.md,
   },
+  pendingCard: {
+    opacity: 0.6,
+  },
+  pendingText: {
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+    fontStyle: 'italic',
+  },
   formName: {
     fontSize: typography.h3,
     fontWeight: typography.semibold,
@@ -0,0 +1,326 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../types';
+import { Button, Card, Loading, ErrorView } from '../components';
+import { pickCSVFile, importRecords, CSVFile } from '../services/importService';
+import { useFields } from '../hooks/useStore';
+import { autoMatchColumns, buildImportRows, isImportable, ColumnMapping, ImportRow } from '../utils/importers';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { ERROR_MESSAGES, IMPORT_CONFIG } from '../constants/appConstants';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errors';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Import'>;
+
+/**
+ * CSV import screen
+ * Pick a file, map its columns to fields, check every row (dry run), then insert the valid rows in batches
+ */
+const ImportScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { formId, formName } = route.params;
+  const { data, loading, error, refresh } = useFields(formId);
+  const fields = data ?? [];
+  const [file, setFile] = useState<CSVFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [report, setReport] = useState<ImportRow[] | null>(null);
+  const [picking, setPicking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  const importableFields = fields.filter(isImportable);
+  const missingRequired = fields.filter(field => field.required && !mapping.includes(field.name));
+  const validRows = report ? report.filter(row => row.errors.length === 0) : [];
+  const invalidRows = report ? report.filter(row => row.errors.length > 0) : [];
+
+  const handlePickFile = async () => {
+    try {
+      setPicking(true);
+      const picked = await pickCSVFile();
+      if (!picked) return;
+
+      setFile(picked);
+      setMapping(autoMatchColumns(picked.headers, fields));
+      setReport(null);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.INVALID_CSV);
+      logger.error('Pick CSV error:', err);
+    } finally {
+      setPicking(false);
+    }
+  };
+
+  /**
+   * Map a column to a field; a field can only be mapped from one column
+   */
+  const updateMapping = (column: number, fieldName: string | null) => {
+    setMapping(mapping.map((current, index) => {
+      if (index === column) return fieldName;
+      return fieldName !== null && current === fieldName ? null : current;
+    }));
+    setReport(null);
+  };
+
+  const handleDryRun = () => {
+    if (!file) return;
+    setReport(buildImportRows(file.rows, mapping, fields));
+  };
+
+  const runImport = async () => {
+    try {
+      setImporting(true);
+      setProgress(`Importing 0 of ${validRows.length} records...`);
+
+      const imported = await importRecords(
+        formId,
+        validRows.map(row => row.values),
+        (done, total) => setProgress(`Importing ${done} of ${total} records...`)
+      );
+
+      Alert.alert('Import Complete', `Imported ${imported} ${imported === 1 ? 'record' : 'records'} into ${formName}.`, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.IMPORT_FAILED);
+      logger.error('Import records error:', err);
+    } finally {
+      setImporting(false);
+      setProgress(null);
+    }
+  };
+
+  const handleImport = () => {
+    if (invalidRows.length === 0) {
+      runImport();
+      return;
+    }
+
+    Alert.alert(
+      'Skip Invalid Rows?',
+      `${invalidRows.length} ${invalidRows.length === 1 ? 'row has' : 'rows have'} errors and will not be imported.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Import Valid Rows', onPress: runImport },
+      ]
+    );
+  };
+
+  if (loading) {
+    return <Loading message="Loading fields..." />;
+  }
+
+  if (error && !data) {
+    return <ErrorView message={error} onRetry={refresh} />;
+  }
+
+  if (fields.length === 0) {
+    return <ErrorView message="This form has no fields yet. Please add fields first." onRetry={refresh} />;
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Card style={styles.section}>
+        <Text style={styles.sectionTitle}>Import into {formName}</Text>
+        <Text style={styles.subtitle}>
+          {file
+            ? `${file.name} · ${file.rows.length} ${file.rows.length === 1 ? 'row' : 'rows'}, ${file.headers.length} columns`
+            : 'Choose a CSV file with a header row. Columns are matched to fields by name.'}
+        </Text>
+        <Button
+          title={file ? 'Choose Another File' : 'Choose CSV File'}
+          onPress={handlePickFile}
+          loading={picking}
+          disabled={picking || importing}
+          variant={file ? 'secondary' : 'primary'}
+        />
+      </Card>
+
+      {file && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Columns</Text>
+          {file.headers.map((header, column) => (
+            <View key={`${header}-${column}`} style={styles.column}>
+              <Text style={styles.label}>{header || `Column ${column + 1}`}</Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                <View style={styles.options}>
+                  <TouchableOpacity
+                    style={[styles.option, mapping[column] === null && styles.optionSkipped]}
+                    onPress={() => updateMapping(column, null)}
+                  >
+                    <Text style={styles.optionText}>Skip</Text>
+                  </TouchableOpacity>
+                  {importableFields.map(field => (
+                    <TouchableOpacity
+                      key={field.id}
+                      style={[styles.option, mapping[column] === field.name && styles.optionSelected]}
+                      onPress={() => updateMapping(column, field.name)}
+                    >
+                      <Text style={[styles.optionText, mapping[column] === field.name && styles.optionTextSelected]}>
+                        {field.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </ScrollView>
+            </View>
+          ))}
+
+          {missingRequired.length > 0 && (
+            <Text style={styles.warning}>
+              Required {missingRequired.length === 1 ? 'field is' : 'fields are'} not mapped:{' '}
+              {missingRequired.map(field => field.name).join(', ')}
+            </Text>
+          )}
+
+          <Button
+            title="Check Rows"
+            onPress={handleDryRun}
+            disabled={importing || file.rows.length === 0}
+            variant="secondary"
+            style={styles.checkButton}
+          />
+        </Card>
+      )}
+
+      {report && (
+        <Card style={styles.section}>
+          <Text style={styles.sectionTitle}>Dry Run</Text>
+          <Text style={styles.summary}>
+            ✅ {validRows.length} {validRows.length === 1 ? 'row' : 'rows'} ready to import
+          </Text>
+          {invalidRows.length > 0 && (
+            <Text style={styles.summary}>
+              ⚠️ {invalidRows.length} {invalidRows.length === 1 ? 'row has' : 'rows have'} errors
+            </Text>
+          )}
+
+          {invalidRows.slice(0, IMPORT_CONFIG.MAX_REPORTED_ERRORS).map(row => (
+            <View key={row.row} style={styles.errorRow}>
+              <Text style={styles.errorRowTitle}>Row {row.row}</Text>
+              {row.errors.map(message => (
+                <Text key={message} style={styles.errorText}>{message}</Text>
+              ))}
+            </View>
+          ))}
+          {invalidRows.length > IMPORT_CONFIG.MAX_REPORTED_ERRORS && (
+            <Text style={styles.subtitle}>
+              …and {invalidRows.length - IMPORT_CONFIG.MAX_REPORTED_ERRORS} more rows with errors
+            </Text>
+          )}
+
+          {progress && <Text style={styles.progress}>{progress}</Text>}
+
+          <Button
+            title={`Import ${validRows.length} ${validRows.length === 1 ? 'Record' : 'Records'}`}
+            onPress={handleImport}
+            loading={importing}
+            disabled={importing || validRows.length === 0}
+            size="large"
+            style={styles.importButton}
+          />
+        </Card>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  section: {
+    marginBottom: spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: typography.h3,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  column: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  option: {
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+  optionSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  optionSkipped: {
+    borderColor: colors.textSecondary,
+  },
+  optionText: {
+    fontSize: typography.bodySmall,
+    color: colors.text,
+  },
+  optionTextSelected: {
+    color: colors.textInverse,
+    fontWeight: typography.semibold,
+  },
+  warning: {
+    fontSize: typography.bodySmall,
+    color: colors.warning,
+    marginBottom: spacing.md,
+  },
+  checkButton: {
+    marginTop: spacing.sm,
+  },
+  summary: {
+    fontSize: typography.body,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  errorRow: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.error,
+    paddingLeft: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  errorRowTitle: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.semibold,
+    color: colors.text,
+  },
+  errorText: {
+    fontSize: typography.bodySmall,
+    color: colors.error,
+  },
+  progress: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+  },
+  importButton: {
+    marginTop: spacing.md,
+  },
+});
+
+export default ImportScreen;
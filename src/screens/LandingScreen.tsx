@@ -1,8 +1,9 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { View, Text, StyleSheet, Animated, ScrollView, Platform } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types';
 import { Button } from '../components';
+import { session } from '../services/session';
 import { colors, spacing, typography, borderRadius } from '../theme';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'Landing'>;
@@ -11,6 +12,12 @@ const LandingScreen: React.FC<Props> = ({ navigation }) => {
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(30)).current;
   const buttonScale = useRef(new Animated.Value(0.95)).current;
+  const [username, setUsername] = useState<string | null>(null);
+
+  useEffect(() => {
+    session.load().then(credentials => setUsername(credentials?.username ?? null));
+    return session.subscribe(credentials => setUsername(credentials?.username ?? null));
+  }, []);
 
   useEffect(() => {
     // Fade in and slide up animation
@@ -99,11 +106,19 @@ const LandingScreen: React.FC<Props> = ({ navigation }) => {
           ]}
         >
           <Button
-            title="Start Building Forms"
-            onPress={() => navigation.replace('MainTabs')}
+            title={username ? 'Start Building Forms' : 'Sign In'}
+            onPress={() => (username ? navigation.replace('MainTabs') : navigation.navigate('SignIn'))}
             size="large"
             style={styles.button}
           />
+          {username && (
+            <Text style={styles.account}>
+              Signed in as {username} ·{' '}
+              <Text style={styles.switchAccount} onPress={() => navigation.navigate('SignIn')}>
+                Switch account
+              </Text>
+            </Text>
+          )}
           <Text style={styles.version}>Version 1.0.0</Text>
         </Animated.View>
       </ScrollView>
@@ -181,6 +196,16 @@ const styles = StyleSheet.create({
   button: {
     marginBottom: spacing.md,
   },
+  account: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.sm,
+  },
+  switchAccount: {
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
   version: {
     fontSize: typography.caption,
     color: colors.textTertiary,
@@ -1,87 +1,31 @@
-import React, { useState, useCallback } from 'react';
+import React, { useMemo } from 'react';
 import { View, Text, StyleSheet, FlatList, TouchableOpacity, Platform } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
-import { RootStackParamList, Form, Record, LocationValue } from '../types';
+import { RootStackParamList } from '../types';
 import { Card, Loading, ErrorView } from '../components';
-import { formAPI, recordAPI } from '../services/api';
+import { getRecordLocations, RecordLocation } from '../services/formRecords';
+import { useAllRecords } from '../hooks/useStore';
 import { colors, spacing, typography, borderRadius } from '../theme';
 import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'MapList'>;
 
-interface LocationRecord {
-  id: number;
-  formId: number;
-  formName: string;
-  fieldName: string;
-  location: LocationValue;
-}
-
 const MapListScreen: React.FC<Props> = ({ navigation }) => {
-  const [locations, setLocations] = useState<LocationRecord[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  const loadLocations = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      // Get all forms
-      const forms = await formAPI.getAll();
-
-      // Load records for each form and extract locations
-      const allLocations: LocationRecord[] = [];
-
-      for (const form of forms) {
-        try {
-          const records = await recordAPI.getByFormId(form.id);
+  const { data: records, loading, error, refresh } = useAllRecords();
 
-          records.forEach((record: Record) => {
-            Object.entries(record.values).forEach(([fieldName, value]) => {
-              if (value && typeof value === 'object' && 'lat' in value && 'lng' in value) {
-                allLocations.push({
-                  id: record.id,
-                  formId: form.id,
-                  formName: form.name,
-                  fieldName,
-                  location: value as LocationValue,
-                });
-              }
-            });
-          });
-        } catch (err) {
-          logger.log(`Failed to load records for form ${form.id}:`, err);
-        }
-      }
-
-      // Sort by form name, then field name
-      allLocations.sort((a, b) => {
+  // Sorted by form name, then field name
+  const locations = useMemo(
+    () =>
+      getRecordLocations(records ?? []).sort((a, b) => {
         if (a.formName !== b.formName) {
           return a.formName.localeCompare(b.formName);
         }
         return a.fieldName.localeCompare(b.fieldName);
-      });
-
-      setLocations(allLocations);
-    } catch (err: any) {
-      const errorMessage = getErrorMessage(err);
-      setError(errorMessage);
-      logger.error('Load locations error:', err);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  useFocusEffect(
-    useCallback(() => {
-      loadLocations();
-    }, [])
+      }),
+    [records]
   );
 
-  const handleLocationPress = (location: LocationRecord) => {
+  const handleLocationPress = (location: RecordLocation) => {
     // Navigate to map and center on this location
     logger.log('Navigating to location:', location.location.lat, location.location.lng);
     navigation.navigate('MainTabs', {
@@ -93,7 +37,7 @@ const MapListScreen: React.FC<Props> = ({ navigation }) => {
     });
   };
 
-  const renderLocation = ({ item }: { item: LocationRecord }) => (
+  const renderLocation = ({ item }: { item: RecordLocation }) => (
     <TouchableOpacity onPress={() => handleLocationPress(item)} activeOpacity={0.7}>
       <Card style={styles.locationCard}>
         <View style={styles.locationHeader}>
@@ -116,7 +60,7 @@ const MapListScreen: React.FC<Props> = ({ navigation }) => {
         </View>
 
         <View style={styles.recordIdContainer}>
-          <Text style={styles.recordIdLabel}>Record #{item.id}</Text>
+          <Text style={styles.recordIdLabel}>Record #{item.recordId}</Text>
           <Text style={styles.viewMapText}>Tap to view on map →</Text>
         </View>
       </Card>
@@ -131,10 +75,10 @@ const MapListScreen: React.FC<Props> = ({ navigation }) => {
     );
   }
 
-  if (error) {
+  if (error && !records) {
     return (
       <View style={styles.container}>
-        <ErrorView message={error} onRetry={loadLocations} />
+        <ErrorView message={error} onRetry={refresh} />
       </View>
     );
   }
@@ -160,7 +104,7 @@ const MapListScreen: React.FC<Props> = ({ navigation }) => {
         <FlatList
           data={locations}
           renderItem={renderLocation}
-          keyExtractor={(item, index) => `${item.id}-${index}`}
+          keyExtractor={(item, index) => `${item.recordId}-${index}`}
           contentContainerStyle={styles.list}
           showsVerticalScrollIndicator={false}
         />
@@ -1,18 +1,19 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { View, Text, StyleSheet, Dimensions, Alert, Platform, TouchableOpacity } from 'react-native';
 import { CompositeScreenProps, useFocusEffect } from '@react-navigation/native';
 import { BottomTabScreenProps } from '@react-navigation/bottom-tabs';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import MapView, { Marker, PROVIDER_DEFAULT } from 'react-native-maps';
 import * as Location from 'expo-location';
-import { TabParamList, RootStackParamList, Record, LocationValue } from '../types';
+import { TabParamList, RootStackParamList, LocationValue } from '../types';
 import { Button, Loading, ErrorView, Card } from '../components';
 import { ScreenWrapper } from '../components/ScreenWrapper';
 import { SideDrawer } from '../components/SideDrawer';
-import { recordAPI, formAPI } from '../services/api';
+import { getRecordLocations, RecordLocation } from '../services/formRecords';
+import { useAllRecords } from '../hooks/useStore';
 import { colors, spacing, typography } from '../theme';
 import { getStandardMenuItems } from '../constants/navigationMenu';
-import { MAP_CONFIG, ANIMATION_CONFIG, ERROR_MESSAGES } from '../constants/appConstants';
+import { MAP_CONFIG, ANIMATION_CONFIG } from '../constants/appConstants';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/errors';
 
@@ -25,14 +26,26 @@ interface MarkerData {
   id: number;
   formName: string;
   fieldName: string;
+  /** Callout text: the location field and the record's yes/no answers */
+  description: string;
   location: LocationValue;
   recordId: number;
 }
 
+/**
+ * Callout text such as "Site · Fenced ✓ · Flooded ✗"
+ */
+const describeMarker = ({ fieldName, values }: RecordLocation): string =>
+  [
+    fieldName,
+    ...Object.entries(values)
+      .filter((entry): entry is [string, boolean] => typeof entry[1] === 'boolean')
+      .map(([name, answer]) => `${name} ${answer ? '✓' : '✗'}`),
+  ].join(' · ');
+
 const MapScreen: React.FC<Props> = ({ navigation, route }) => {
-  const [markers, setMarkers] = useState<MarkerData[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { data: records, loading, error, refresh } = useAllRecords();
+  const [locating, setLocating] = useState(true);
   const [userLocation, setUserLocation] = useState<LocationValue | null>(null);
   const [drawerVisible, setDrawerVisible] = useState(false);
   const [region, setRegion] = useState<{
@@ -49,11 +62,38 @@ const MapScreen: React.FC<Props> = ({ navigation, route }) => {
 
   const menuItems = getStandardMenuItems(navigation);
   const mapRef = useRef<MapView>(null);
+  // Whether the map was centered on the user or a marker since the last refresh
+  const centered = useRef(false);
+
+  const markers = useMemo<MarkerData[]>(
+    () =>
+      getRecordLocations(records ?? []).map((location, index) => ({
+        id: index,
+        formName: location.formName,
+        fieldName: location.fieldName,
+        description: describeMarker(location),
+        location: location.location,
+        recordId: location.recordId,
+      })),
+    [records]
+  );
 
   useEffect(() => {
-    loadData();
+    locateUser();
   }, []);
 
+  // Without the user's location, center on the first marker once both have loaded
+  useEffect(() => {
+    if (locating || userLocation || centered.current || markers.length === 0) return;
+    centered.current = true;
+    setRegion({
+      latitude: markers[0].location.lat + MAP_CONFIG.LATITUDE_OFFSET,
+      longitude: markers[0].location.lng,
+      latitudeDelta: MAP_CONFIG.LATITUDE_DELTA,
+      longitudeDelta: MAP_CONFIG.LONGITUDE_DELTA,
+    });
+  }, [locating, userLocation, markers]);
+
   // Center map when screen is focused with params
   useFocusEffect(
     React.useCallback(() => {
@@ -85,86 +125,41 @@ const MapScreen: React.FC<Props> = ({ navigation, route }) => {
   );
 
   /**
-   * Load map data including user location and all location markers from records
-   * Requests location permission, fetches all forms and their records,
-   * extracts location fields, and centers map on user or first marker
+   * Request location permission and center the map on the user when granted
+   * Markers come from the shared store and update whenever records change
    */
-  const loadData = async (shouldCenterOnUser: boolean = true) => {
+  const locateUser = async () => {
     try {
-      setLoading(true);
-      setError(null);
-
-      // Request location permission
+      setLocating(true);
       const { status } = await Location.requestForegroundPermissionsAsync();
-      if (status === 'granted') {
-        try {
-          const location = await Location.getCurrentPositionAsync({});
-          const userLoc: LocationValue = {
-            lat: location.coords.latitude,
-            lng: location.coords.longitude,
-          };
-          setUserLocation(userLoc);
-          // Only center on user if shouldCenterOnUser is true
-          if (shouldCenterOnUser) {
-            setRegion({
-              latitude: userLoc.lat + MAP_CONFIG.LATITUDE_OFFSET,
-              longitude: userLoc.lng,
-              latitudeDelta: MAP_CONFIG.LATITUDE_DELTA,
-              longitudeDelta: MAP_CONFIG.LONGITUDE_DELTA,
-            });
-          }
-        } catch (err) {
-          logger.log('Could not get user location:', err);
-        }
-      }
-
-      // Load all forms
-      const forms = await formAPI.getAll();
-
-      // Load records for each form and extract location data
-      const allMarkers: MarkerData[] = [];
-
-      for (const form of forms) {
-        try {
-          const records = await recordAPI.getByFormId(form.id);
-
-          records.forEach((record: Record) => {
-            Object.entries(record.values).forEach(([fieldName, value]) => {
-              if (value && typeof value === 'object' && 'lat' in value && 'lng' in value) {
-                allMarkers.push({
-                  id: allMarkers.length,
-                  formName: form.name,
-                  fieldName,
-                  location: value as LocationValue,
-                  recordId: record.id,
-                });
-              }
-            });
-          });
-        } catch (err) {
-          logger.log(`Failed to load records for form ${form.id}:`, err);
-        }
-      }
-
-      setMarkers(allMarkers);
+      if (status !== 'granted') return;
 
-      // If we have markers but no user location, center on first marker (only if shouldCenterOnUser is true)
-      if (shouldCenterOnUser && allMarkers.length > 0 && !userLocation) {
-        setRegion({
-          latitude: allMarkers[0].location.lat + MAP_CONFIG.LATITUDE_OFFSET,
-          longitude: allMarkers[0].location.lng,
-          latitudeDelta: MAP_CONFIG.LATITUDE_DELTA,
-          longitudeDelta: MAP_CONFIG.LONGITUDE_DELTA,
-        });
-      }
+      const location = await Location.getCurrentPositionAsync({});
+      const userLoc: LocationValue = {
+        lat: location.coords.latitude,
+        lng: location.coords.longitude,
+      };
+      setUserLocation(userLoc);
+      centered.current = true;
+      setRegion({
+        latitude: userLoc.lat + MAP_CONFIG.LATITUDE_OFFSET,
+        longitude: userLoc.lng,
+        latitudeDelta: MAP_CONFIG.LATITUDE_DELTA,
+        longitudeDelta: MAP_CONFIG.LONGITUDE_DELTA,
+      });
     } catch (err) {
-      setError('Failed to load map data. Please try again.');
-      logger.error(err);
+      logger.log('Could not get user location:', err);
     } finally {
-      setLoading(false);
+      setLocating(false);
     }
   };
 
+  const handleRefresh = () => {
+    centered.current = false;
+    locateUser();
+    refresh();
+  };
+
   const handleMarkerPress = (marker: MarkerData) => {
     Alert.alert(
       marker.formName,
@@ -216,10 +211,10 @@ const MapScreen: React.FC<Props> = ({ navigation, route }) => {
     );
   }
 
-  if (error) {
+  if (error && !records) {
     return (
       <ScreenWrapper title="Map" subtitle="View locations" onMenuPress={() => setDrawerVisible(true)}>
-        <ErrorView message={error} onRetry={loadData} />
+        <ErrorView message={error} onRetry={refresh} />
       </ScreenWrapper>
     );
   }
@@ -255,7 +250,7 @@ const MapScreen: React.FC<Props> = ({ navigation, route }) => {
               longitude: marker.location.lng,
             }}
             title={marker.formName}
-            description={marker.fieldName}
+            description={marker.description}
             pinColor={colors.accent}
             onPress={() => handleMarkerPress(marker)}
           />
@@ -297,7 +292,7 @@ const MapScreen: React.FC<Props> = ({ navigation, route }) => {
           />
           <Button
             title="Refresh"
-            onPress={() => loadData(true)}
+            onPress={handleRefresh}
             variant="secondary"
             size="small"
             style={styles.button}
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, Alert, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList, OutboxItem, OutboxStatus } from '../types';
+import { Button, Card, Loading } from '../components';
+import { outbox } from '../services/outbox';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errors';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'Outbox'>;
+
+const STATUS_STYLES: { [status in OutboxStatus]: { label: string; color: string } } = {
+  pending: { label: 'Pending', color: colors.warning },
+  failed: { label: 'Failed', color: colors.error },
+  uncertain: { label: 'Unconfirmed', color: colors.warning },
+  synced: { label: 'Synced', color: colors.success },
+};
+
+const OutboxScreen: React.FC<Props> = () => {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+
+  useEffect(
+    () =>
+      outbox.subscribe(queued => {
+        setItems(queued);
+        setLoading(false);
+      }),
+    []
+  );
+
+  const handleSyncNow = async () => {
+    try {
+      setSyncing(true);
+      await outbox.flush();
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || 'Failed to sync. Please try again.');
+      logger.error('Outbox sync error:', err);
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const handleDiscard = (item: OutboxItem) => {
+    Alert.alert(
+      'Discard Change',
+      `"${item.description}" will not be sent to the server. This action cannot be undone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => outbox.discard(item.id),
+        },
+      ]
+    );
+  };
+
+  const formatTime = (timestamp?: number): string => {
+    if (!timestamp) return '-';
+    return new Date(timestamp).toLocaleString();
+  };
+
+  const pendingCount = items.filter(item => item.status === 'pending').length;
+  const syncedCount = items.filter(item => item.status === 'synced').length;
+
+  const renderItem = ({ item }: { item: OutboxItem }) => {
+    const status = STATUS_STYLES[item.status];
+
+    return (
+      <Card style={styles.itemCard}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemTitle}>{item.description}</Text>
+          <View style={[styles.badge, { borderColor: status.color }]}>
+            <Text style={[styles.badgeText, { color: status.color }]}>{status.label}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.itemMeta}>Queued: {formatTime(item.createdAt)}</Text>
+        {item.attempts > 0 && (
+          <Text style={styles.itemMeta}>Attempts: {item.attempts}</Text>
+        )}
+        {item.status === 'pending' && item.nextAttemptAt && (
+          <Text style={styles.itemMeta}>Next attempt: {formatTime(item.nextAttemptAt)}</Text>
+        )}
+        {item.status === 'synced' && (
+          <Text style={styles.itemMeta}>Synced: {formatTime(item.lastAttemptAt)}</Text>
+        )}
+        {item.error && item.status !== 'synced' && (
+          <Text style={styles.itemError}>{item.error}</Text>
+        )}
+
+        {item.status !== 'synced' && (
+          <View style={styles.actions}>
+            {(item.status === 'failed' || item.status === 'uncertain') && (
+              <TouchableOpacity onPress={() => outbox.retry(item.id)} style={styles.actionLink}>
+                <Text style={styles.retryText}>{item.status === 'uncertain' ? 'Send Again' : 'Retry'}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => handleDiscard(item)} style={styles.actionLink}>
+              <Text style={styles.discardText}>Discard</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return <Loading message="Loading sync queue..." />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.summary}>
+          {pendingCount} pending {pendingCount === 1 ? 'change' : 'changes'}
+        </Text>
+        <View style={styles.headerActions}>
+          <Button
+            title="Sync Now"
+            onPress={handleSyncNow}
+            loading={syncing}
+            disabled={syncing || pendingCount === 0}
+            size="small"
+            style={styles.headerButton}
+          />
+          <Button
+            title="Clear Synced"
+            onPress={() => outbox.clearSynced()}
+            variant="secondary"
+            disabled={syncedCount === 0}
+            size="small"
+            style={styles.headerButton}
+          />
+        </View>
+      </View>
+
+      <FlatList
+        data={[...items].reverse()}
+        keyExtractor={(item) => item.id}
+        renderItem={renderItem}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>☁️</Text>
+            <Text style={styles.emptyText}>Everything is synced</Text>
+            <Text style={styles.emptySubtext}>Changes made while offline will appear here</Text>
+          </View>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    padding: spacing.lg,
+    paddingBottom: spacing.sm,
+  },
+  summary: {
+    fontSize: typography.body,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  headerButton: {
+    flex: 1,
+  },
+  list: {
+    padding: spacing.lg,
+    paddingTop: spacing.sm,
+  },
+  itemCard: {
+    marginBottom: spacing.md,
+    padding: spacing.md,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: spacing.sm,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: typography.body,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  badge: {
+    borderWidth: 1,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    fontSize: typography.caption,
+    fontWeight: typography.semibold,
+  },
+  itemMeta: {
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  itemError: {
+    fontSize: typography.caption,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  actionLink: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  retryText: {
+    fontSize: typography.bodySmall,
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
+  discardText: {
+    fontSize: typography.bodySmall,
+    color: colors.error,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xxl,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: typography.h3,
+    fontWeight: typography.semibold,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  emptySubtext: {
+    fontSize: typography.body,
+    color: colors.textTertiary,
+    textAlign: 'center',
+  },
+});
+
+export default OutboxScreen;
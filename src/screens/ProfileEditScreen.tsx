@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { Text, StyleSheet, ScrollView, Alert } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../types';
+import { Button, Input, Loading } from '../components';
+import { authAPI } from '../services/api';
+import { session } from '../services/session';
+import { colors, spacing, typography } from '../theme';
+import { API_CONFIG, ERROR_MESSAGES, SUCCESS_MESSAGES } from '../constants/appConstants';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errors';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'ProfileEdit'>;
+
+type ProfileErrors = { name?: string; baseUrl?: string; username?: string; token?: string };
+
+const ProfileEditScreen: React.FC<Props> = ({ navigation, route }) => {
+  const profileId = route.params?.profileId;
+  const isEditing = profileId !== undefined;
+
+  const [name, setName] = useState('');
+  const [baseUrl, setBaseUrl] = useState<string>(API_CONFIG.BASE_URL);
+  const [username, setUsername] = useState('');
+  const [token, setToken] = useState('');
+  const [hasStoredToken, setHasStoredToken] = useState(false);
+  const [loading, setLoading] = useState(isEditing);
+  const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [errors, setErrors] = useState<ProfileErrors>({});
+
+  useEffect(() => {
+    navigation.setOptions({ title: isEditing ? 'Edit Server' : 'Add Server' });
+    if (isEditing) {
+      loadProfile();
+    }
+  }, [profileId]);
+
+  const loadProfile = async () => {
+    try {
+      await session.load();
+      const profile = session.getProfiles().find(p => p.id === profileId);
+      if (!profile) {
+        Alert.alert('Error', 'Profile not found.', [{ text: 'OK', onPress: () => navigation.goBack() }]);
+        return;
+      }
+      setName(profile.name);
+      setBaseUrl(profile.baseUrl);
+      setUsername(profile.username);
+      setHasStoredToken((await session.getToken(profile.id)) !== null);
+    } catch (err) {
+      logger.error('Load profile error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const clearError = (key: keyof ProfileErrors) => {
+    setTestResult(null);
+    if (errors[key]) {
+      const newErrors = { ...errors };
+      delete newErrors[key];
+      setErrors(newErrors);
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: ProfileErrors = {};
+
+    if (!name.trim()) {
+      newErrors.name = 'Profile name is required';
+    }
+
+    if (!/^https?:\/\/\S+$/i.test(baseUrl.trim())) {
+      newErrors.baseUrl = ERROR_MESSAGES.INVALID_URL;
+    }
+
+    if (!username.trim()) {
+      newErrors.username = 'Username is required';
+    }
+
+    if (!token.trim() && !hasStoredToken) {
+      newErrors.token = 'Token is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  /**
+   * Token typed into the form, falling back to the stored one when left blank
+   */
+  const resolveToken = async (): Promise<string> => {
+    if (token.trim()) return token.trim();
+    return (profileId && (await session.getToken(profileId))) || '';
+  };
+
+  const handleTest = async () => {
+    if (!validate()) return;
+
+    try {
+      setTesting(true);
+      const latency = await authAPI.testConnection(baseUrl, username.trim(), await resolveToken());
+      setTestResult({ ok: true, message: `Connected (${latency} ms)` });
+    } catch (err) {
+      setTestResult({ ok: false, message: getErrorMessage(err) });
+      logger.error('Connection test error:', err);
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const handleSave = async (activate: boolean) => {
+    if (!validate()) return;
+
+    try {
+      setSaving(true);
+      const profile = await session.saveProfile(
+        { id: profileId, name: name.trim(), baseUrl, username: username.trim() },
+        token.trim() || undefined
+      );
+
+      if (activate) {
+        await session.activate(profile.id);
+      }
+
+      Alert.alert('Success', SUCCESS_MESSAGES.PROFILE_SAVED, [
+        { text: 'OK', onPress: () => navigation.goBack() },
+      ]);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || 'Failed to save profile. Please try again.');
+      logger.error('Save profile error:', err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading message="Loading profile..." />;
+  }
+
+  const isActive = isEditing && session.getActiveProfile()?.id === profileId;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Input
+        label="Profile Name"
+        value={name}
+        onChangeText={(text) => {
+          setName(text);
+          clearError('name');
+        }}
+        placeholder="e.g. Staging"
+        error={errors.name}
+      />
+
+      <Input
+        label="Base URL"
+        value={baseUrl}
+        onChangeText={(text) => {
+          setBaseUrl(text);
+          clearError('baseUrl');
+        }}
+        placeholder="https://example.com/api"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        error={errors.baseUrl}
+      />
+
+      <Input
+        label="Username"
+        value={username}
+        onChangeText={(text) => {
+          setUsername(text);
+          clearError('username');
+        }}
+        placeholder="e.g. s1234567"
+        autoCapitalize="none"
+        autoCorrect={false}
+        error={errors.username}
+      />
+
+      <Input
+        label="Token"
+        value={token}
+        onChangeText={(text) => {
+          setToken(text);
+          clearError('token');
+        }}
+        placeholder={hasStoredToken ? 'Leave blank to keep the stored token' : 'Paste your JWT'}
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry
+        error={errors.token}
+      />
+
+      {testResult && (
+        <Text style={[styles.result, { color: testResult.ok ? colors.success : colors.error }]}>
+          {testResult.ok ? '✓ ' : '✗ '}{testResult.message}
+        </Text>
+      )}
+
+      <Button
+        title="Test Connection"
+        onPress={handleTest}
+        loading={testing}
+        disabled={testing || saving}
+        variant="secondary"
+        style={styles.button}
+      />
+
+      {!isActive && (
+        <Button
+          title="Save & Use"
+          onPress={() => handleSave(true)}
+          loading={saving}
+          disabled={saving}
+          size="large"
+          style={styles.button}
+        />
+      )}
+
+      <Button
+        title="Save"
+        onPress={() => handleSave(false)}
+        loading={saving}
+        disabled={saving}
+        variant={isActive ? 'primary' : 'ghost'}
+        size="large"
+        style={styles.button}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  result: {
+    fontSize: typography.bodySmall,
+    marginBottom: spacing.sm,
+  },
+  button: {
+    marginTop: spacing.md,
+  },
+});
+
+export default ProfileEditScreen;
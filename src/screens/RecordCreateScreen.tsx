@@ -1,27 +1,40 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity, Image } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, Alert, TouchableOpacity, Image, Switch } from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import * as Location from 'expo-location';
 import * as ImagePicker from 'expo-image-picker';
-import { RootStackParamList, Field, RecordValues, LocationValue } from '../types';
-import { Button, Input, Card, Loading, ErrorView } from '../components';
+import { RootStackParamList, Field, Record, RecordValues, LocationValue, BarcodeValue } from '../types';
+import { Button, Input, Card, Loading, ErrorView, DateTimeInput, NumberInput, BarcodeScanner } from '../components';
 import { fieldAPI, recordAPI } from '../services/api';
 import { colors, spacing, typography, borderRadius } from '../theme';
 import { optimizeImage } from '../utils/imageOptimizer';
-import { IMAGE_CONFIG } from '../constants/appConstants';
+import { outbox } from '../services/outbox';
+import { createOptimistically } from '../services/optimistic';
+import { ERROR_MESSAGES, IMAGE_CONFIG, SUCCESS_MESSAGES } from '../constants/appConstants';
 import { logger } from '../utils/logger';
-import { getErrorMessage } from '../utils/errors';
-
-type Props = NativeStackScreenProps<RootStackParamList, 'RecordCreate'>;
-
+import { getErrorMessage, isNetworkError } from '../utils/errors';
+import { validateRecordValues, toRecordValues } from '../utils/recordValidation';
+import { isTemporalType, parseTemporal, toTemporalValue } from '../utils/dates';
+import { describeBarcodeProblem, isBarcodeValue } from '../utils/barcodes';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'RecordCreate' | 'RecordEdit'>;
+
+/**
+ * Record form screen
+ * Serves both the RecordCreate and RecordEdit routes; when a recordId is passed
+ * the existing values are loaded into the same field renderers and saved with PATCH
+ */
 const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
   const { formId, formName } = route.params;
+  const recordId = 'recordId' in route.params ? route.params.recordId : undefined;
+  const isEditing = recordId !== undefined;
   const [fields, setFields] = useState<Field[]>([]);
   const [values, setValues] = useState<RecordValues>({});
   const [errors, setErrors] = useState<{ [key: string]: string }>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [scanningField, setScanningField] = useState<Field | null>(null);
 
   useEffect(() => {
     loadFields();
@@ -40,6 +53,13 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
       }
 
       setFields(data);
+
+      if (isEditing) {
+        const record = await recordAPI.getById(recordId);
+        setValues(toEditableValues(data, record.values));
+      } else {
+        setValues(defaultValues(data));
+      }
     } catch (err: any) {
       const errorMessage = getErrorMessage(err);
       setError(errorMessage);
@@ -49,6 +69,67 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
+  /**
+   * Convert stored values into the shape the inputs edit
+   * Numbers are shown as strings in text inputs and parsed again on save
+   */
+  const toEditableValues = (formFields: Field[], stored: RecordValues): RecordValues => {
+    const editable: RecordValues = { ...stored };
+    formFields.forEach((field) => {
+      const value = stored[field.name];
+      if (typeof value === 'number') {
+        editable[field.name] = String(value);
+      }
+    });
+    return editable;
+  };
+
+  /**
+   * Values a new record starts with: the current date or time where a field asks for it,
+   * and "no" for yes/no questions that can't be left unanswered
+   */
+  const defaultValues = (formFields: Field[]): RecordValues => {
+    const defaults: RecordValues = {};
+    const now = new Date();
+    formFields.forEach((field) => {
+      if (isTemporalType(field.field_type) && field.config?.defaultNow) {
+        defaults[field.name] = toTemporalValue(now, field.field_type);
+      }
+      if (field.field_type === 'boolean' && !field.config?.allowUnanswered) {
+        defaults[field.name] = false;
+      }
+    });
+    return defaults;
+  };
+
+  /**
+   * Hint such as "Select 2 to 4" for a checkboxes field with limits
+   */
+  const describeSelectionLimits = (field: Field): string | null => {
+    const { minSelected, maxSelected } = field.config ?? {};
+    if (minSelected && maxSelected) {
+      return minSelected === maxSelected ? `Select ${minSelected}` : `Select ${minSelected} to ${maxSelected}`;
+    }
+    if (minSelected) return `Select at least ${minSelected}`;
+    if (maxSelected) return `Select up to ${maxSelected}`;
+    return null;
+  };
+
+  const handleBarcodeScanned = (field: Field, code: BarcodeValue) => {
+    setScanningField(null);
+    setValues({ ...values, [field.name]: code });
+
+    // Flag an unexpected code straight away so it can be rescanned
+    const newErrors = { ...errors };
+    const problem = describeBarcodeProblem(code.text, field.config ?? undefined);
+    if (problem) {
+      newErrors[field.name] = problem;
+    } else {
+      delete newErrors[field.name];
+    }
+    setErrors(newErrors);
+  };
+
   const handleLocationCapture = async (fieldName: string) => {
     try {
       const { status } = await Location.requestForegroundPermissionsAsync();
@@ -135,64 +216,11 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
 
   /**
    * Validate form values against field requirements
-   * Checks required fields, number fields, and image fields
    *
    * @returns true if validation passes, false otherwise
    */
   const validate = (): boolean => {
-    const newErrors: { [key: string]: string } = {};
-
-    fields.forEach((field) => {
-      const value = values[field.name];
-
-      // Required field validation
-      if (field.required) {
-        if (!value || (typeof value === 'string' && !value.trim())) {
-          newErrors[field.name] = `${field.name} is required`;
-          return;
-        }
-      }
-
-      // Text field validations
-      if ((field.field_type === 'text' || field.field_type === 'multiline') && value && typeof value === 'string') {
-        if (value.trim().length < 1) {
-          newErrors[field.name] = 'Cannot be empty';
-          return;
-        }
-        if (value.length > 1000) {
-          newErrors[field.name] = 'Maximum 1000 characters allowed';
-          return;
-        }
-      }
-
-      // Numeric validation
-      if (field.is_num && value && typeof value === 'string') {
-        const numValue = parseFloat(value);
-        if (isNaN(numValue)) {
-          newErrors[field.name] = 'Must be a valid number';
-          return;
-        }
-      }
-
-      // Multiple choice validation
-      if (field.field_type === 'multiple choice' && field.required && !value) {
-        newErrors[field.name] = 'Please select an option';
-        return;
-      }
-
-      // Location validation
-      if (field.field_type === 'location' && field.required && !value) {
-        newErrors[field.name] = 'Please capture location';
-        return;
-      }
-
-      // Image validation
-      if (field.field_type === 'image' && field.required && !value) {
-        newErrors[field.name] = 'Please add an image';
-        return;
-      }
-    });
-
+    const newErrors = validateRecordValues(fields, values);
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -203,28 +231,42 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
       return;
     }
 
-    try {
-      setSaving(true);
-
-      const processedValues: RecordValues = {};
-      fields.forEach((field) => {
-        let value = values[field.name];
-
-        if (field.is_num && value && typeof value === 'string') {
-          value = parseFloat(value);
-        }
+    const processedValues = toRecordValues(fields, values);
 
-        if (value !== undefined && value !== null && value !== '') {
-          processedValues[field.name] = value;
+    // Keep stored values whose field has since been removed from the form
+    if (isEditing) {
+      Object.keys(values).forEach((key) => {
+        if (!fields.some((field) => field.name === key)) {
+          processedValues[key] = values[key];
         }
       });
+    }
 
-      await recordAPI.create({
+    if (!isEditing) {
+      const record = {
         form_id: formId,
         values: processedValues,
+      };
+
+      // The new record shows in lists straight away and is removed again if saving fails
+      createOptimistically<Record>({
+        entity: 'record',
+        item: record,
+        failureMessage: ERROR_MESSAGES.CREATE_RECORD_FAILED,
+        commit: () => recordAPI.create(record),
+        queue: async () => {
+          await outbox.enqueue({ type: 'record.create', payload: record }, `New record in ${formName}`);
+        },
       });
+      navigation.goBack();
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await recordAPI.update(recordId, { values: processedValues });
 
-      Alert.alert('Success', 'Record saved successfully', [
+      Alert.alert('Success', 'Record updated successfully', [
         {
           text: 'OK',
           onPress: () => navigation.goBack(),
@@ -232,6 +274,22 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
       ]);
     } catch (err: any) {
       logger.error('Record save error:', err);
+
+      // Keep the submission in the outbox instead of losing it in a dead zone
+      if (isNetworkError(err)) {
+        await outbox.enqueue(
+          { type: 'record.update', id: recordId, payload: { values: processedValues } },
+          `Edit record #${recordId} in ${formName}`
+        );
+        Alert.alert('Saved Offline', SUCCESS_MESSAGES.QUEUED_OFFLINE, [
+          {
+            text: 'OK',
+            onPress: () => navigation.goBack(),
+          },
+        ]);
+        return;
+      }
+
       let errorMessage = getErrorMessage(err);
 
       // Additional check for payload size
@@ -324,6 +382,160 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
           </View>
         );
 
+      case 'number':
+        return (
+          <NumberInput
+            key={field.id}
+            label={field.name}
+            value={(values[field.name] as string) || ''}
+            onChangeText={(text) => {
+              setValues({ ...values, [field.name]: text });
+              if (errors[field.name]) {
+                const newErrors = { ...errors };
+                delete newErrors[field.name];
+                setErrors(newErrors);
+              }
+            }}
+            config={field.config ?? undefined}
+            placeholder={`Enter ${field.name.toLowerCase()}`}
+            error={errors[field.name]}
+          />
+        );
+
+      case 'boolean': {
+        const answer = values[field.name];
+        const unanswered = typeof answer !== 'boolean';
+        const setAnswer = (value: boolean | null) => {
+          setValues({ ...values, [field.name]: value });
+          if (errors[field.name]) {
+            const newErrors = { ...errors };
+            delete newErrors[field.name];
+            setErrors(newErrors);
+          }
+        };
+
+        return (
+          <View key={field.id} style={styles.fieldContainer}>
+            <View style={styles.switchRow}>
+              <Text style={[styles.label, styles.switchLabel]}>{field.name}</Text>
+              <Text style={styles.switchAnswer}>{unanswered ? 'Unanswered' : answer ? 'Yes' : 'No'}</Text>
+              <Switch
+                value={answer === true}
+                onValueChange={setAnswer}
+                trackColor={{ false: colors.border, true: colors.primary }}
+              />
+            </View>
+            {field.config?.allowUnanswered && !unanswered && (
+              <TouchableOpacity onPress={() => setAnswer(null)}>
+                <Text style={styles.clearAnswer}>Clear answer</Text>
+              </TouchableOpacity>
+            )}
+            {errors[field.name] && <Text style={styles.error}>{errors[field.name]}</Text>}
+          </View>
+        );
+      }
+
+      case 'checkboxes': {
+        const selected = Array.isArray(values[field.name]) ? (values[field.name] as string[]) : [];
+        const toggle = (option: string) => {
+          const next = selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option];
+          setValues({ ...values, [field.name]: next });
+          if (errors[field.name]) {
+            const newErrors = { ...errors };
+            delete newErrors[field.name];
+            setErrors(newErrors);
+          }
+        };
+        const limits = describeSelectionLimits(field);
+
+        return (
+          <View key={field.id} style={styles.fieldContainer}>
+            <Text style={styles.label}>{field.name}</Text>
+            {limits && <Text style={styles.hint}>{limits}</Text>}
+            <View style={styles.multipleChoiceOptions}>
+              {field.options?.map((option, index) => {
+                const isSelected = selected.includes(option);
+                return (
+                  <TouchableOpacity
+                    key={index}
+                    style={[styles.multipleChoiceOption, isSelected && styles.multipleChoiceOptionSelected]}
+                    onPress={() => toggle(option)}
+                  >
+                    <Text
+                      style={[styles.multipleChoiceOptionText, isSelected && styles.multipleChoiceOptionTextSelected]}
+                    >
+                      {isSelected ? '☑' : '☐'} {option}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            {errors[field.name] && <Text style={styles.error}>{errors[field.name]}</Text>}
+          </View>
+        );
+      }
+
+      case 'date':
+      case 'time':
+      case 'datetime': {
+        const type = field.field_type;
+        const bound = (text?: string) => (text ? parseTemporal(text, type) ?? undefined : undefined);
+        return (
+          <DateTimeInput
+            key={field.id}
+            label={field.name}
+            type={type}
+            value={(values[field.name] as string) || ''}
+            onChange={(value) => {
+              setValues({ ...values, [field.name]: value });
+              if (errors[field.name]) {
+                const newErrors = { ...errors };
+                delete newErrors[field.name];
+                setErrors(newErrors);
+              }
+            }}
+            minimumDate={bound(field.config?.minDate)}
+            maximumDate={bound(field.config?.maxDate)}
+            error={errors[field.name]}
+          />
+        );
+      }
+
+      case 'barcode': {
+        const code = values[field.name];
+        return (
+          <View key={field.id} style={styles.fieldContainer}>
+            <Text style={styles.label}>{field.name}</Text>
+            <Button
+              title={isBarcodeValue(code) ? 'Scan Again' : 'Scan Code'}
+              onPress={() => setScanningField(field)}
+              variant="secondary"
+            />
+            {isBarcodeValue(code) && (
+              <View style={styles.scannedRow}>
+                <View style={styles.scannedCode}>
+                  <Text style={styles.scannedText} selectable>{code.text}</Text>
+                  {code.symbology && <Text style={styles.hint}>{code.symbology}</Text>}
+                </View>
+                <TouchableOpacity
+                  onPress={() => {
+                    const newValues = { ...values };
+                    delete newValues[field.name];
+                    setValues(newValues);
+                    const newErrors = { ...errors };
+                    delete newErrors[field.name];
+                    setErrors(newErrors);
+                  }}
+                >
+                  <Text style={styles.clearAnswer}>Clear</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+            {errors[field.name] && <Text style={styles.error}>{errors[field.name]}</Text>}
+          </View>
+        );
+      }
+
       case 'location':
         const locationValue = values[field.name] as LocationValue | undefined;
         return (
@@ -364,11 +576,24 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
               />
             </View>
             {values[field.name] && typeof values[field.name] === 'string' && (
-              <Image
-                source={{ uri: values[field.name] as string }}
-                style={styles.imagePreview}
-                resizeMode="cover"
-              />
+              <>
+                <Image
+                  source={{ uri: values[field.name] as string }}
+                  style={styles.imagePreview}
+                  resizeMode="cover"
+                />
+                <Button
+                  title="Remove Image"
+                  onPress={() => {
+                    const newValues = { ...values };
+                    delete newValues[field.name];
+                    setValues(newValues);
+                  }}
+                  variant="ghost"
+                  size="small"
+                  style={styles.removeImageButton}
+                />
+              </>
             )}
             {errors[field.name] && <Text style={styles.error}>{errors[field.name]}</Text>}
           </View>
@@ -380,7 +605,7 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
   };
 
   if (loading) {
-    return <Loading message="Loading form..." />;
+    return <Loading message={isEditing ? 'Loading record...' : 'Loading form...'} />;
   }
 
   if (error) {
@@ -391,19 +616,28 @@ const RecordCreateScreen: React.FC<Props> = ({ navigation, route }) => {
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
       <Card style={styles.card}>
         <Text style={styles.formName}>{formName}</Text>
-        <Text style={styles.subtitle}>Fill out all required fields</Text>
+        <Text style={styles.subtitle}>
+          {isEditing ? `Editing record #${recordId}` : 'Fill out all required fields'}
+        </Text>
       </Card>
 
       {fields.map((field) => renderField(field))}
 
       <Button
-        title="Save Record"
+        title={isEditing ? 'Update Record' : 'Save Record'}
         onPress={handleSave}
         loading={saving}
         disabled={saving}
         size="large"
         style={styles.button}
       />
+
+      <BarcodeScanner
+        visible={scanningField !== null}
+        title={scanningField ? `Scan ${scanningField.name}` : undefined}
+        onScanned={(code) => scanningField && handleBarcodeScanned(scanningField, code)}
+        onClose={() => setScanningField(null)}
+      />
     </ScrollView>
   );
 };
@@ -460,11 +694,49 @@ const styles = StyleSheet.create({
     color: colors.textInverse,
     fontWeight: typography.semibold,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  switchLabel: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  switchAnswer: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+  },
+  clearAnswer: {
+    fontSize: typography.caption,
+    color: colors.primary,
+    marginTop: spacing.xs,
+  },
+  hint: {
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
   locationText: {
     fontSize: typography.bodySmall,
     color: colors.textSecondary,
     marginTop: spacing.sm,
   },
+  scannedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  scannedCode: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  scannedText: {
+    fontSize: typography.body,
+    fontWeight: typography.semibold,
+    color: colors.text,
+  },
   imageButtons: {
     flexDirection: 'row',
     gap: spacing.sm,
@@ -478,6 +750,9 @@ const styles = StyleSheet.create({
     borderRadius: borderRadius.md,
     marginTop: spacing.sm,
   },
+  removeImageButton: {
+    marginTop: spacing.sm,
+  },
   error: {
     fontSize: typography.caption,
     color: colors.error,
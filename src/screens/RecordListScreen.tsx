@@ -1,73 +1,203 @@
-import React, { useState, useCallback } from 'react';
-import { View, Text, StyleSheet, FlatList, Alert, TouchableOpacity, Image, Modal } from 'react-native';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Alert,
+  TouchableOpacity,
+  Image,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
 import * as Clipboard from 'expo-clipboard';
-import { RootStackParamList, Record, LocationValue } from '../types';
-import { Button, Card, Loading, ErrorView } from '../components';
-import { recordAPI } from '../services/api';
+import { RootStackParamList, Field, Record, RecordFilters, RecordValues, RecordSort, SavedView } from '../types';
+import { Button, Card, Loading, ErrorView, ValueChips, BarcodeScanner } from '../components';
+import { fieldAPI, recordAPI } from '../services/api';
+import { savedViews } from '../services/savedViews';
+import { dataStore, isPending } from '../services/dataStore';
+import { usePendingRecords, useRecords } from '../hooks/useStore';
+import { deleteWithUndo } from '../services/optimistic';
 import { colors, spacing, typography, borderRadius } from '../theme';
+import { ERROR_MESSAGES, PAGINATION_CONFIG } from '../constants/appConstants';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/errors';
+import { DEFAULT_SORT, isSortableField, sortByField } from '../utils/recordSort';
+import { formatFieldValue } from '../utils/fieldValues';
+import { barcodeSearchFilter } from '../utils/barcodes';
+import { combineFilters, hasFilters } from '../utils/filterTree';
+import { filterRecords } from '../utils/queryEngine';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'RecordList'>;
 
 const RecordListScreen: React.FC<Props> = ({ navigation, route }) => {
   const { formId, formName } = route.params;
-  const [records, setRecords] = useState<Record[]>([]);
+  const [viewId, setViewId] = useState<string | undefined>(route.params.viewId);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [activeView, setActiveView] = useState<SavedView | null>(null);
+  const [columns, setColumns] = useState<string[] | null>(null);
+  const [formFields, setFormFields] = useState<Field[]>([]);
+  const [sortFields, setSortFields] = useState<Field[]>([]);
+  // null follows the active view's sort
+  const [sortOverride, setSortOverride] = useState<RecordSort | null>(null);
+  const [imageKeys, setImageKeys] = useState<string[]>([]);
+  const [valueKeys, setValueKeys] = useState<string[] | undefined>(undefined);
+  // Fields and views are loaded before the records, which depend on them
+  const [ready, setReady] = useState(false);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [loadingValue, setLoadingValue] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(false);
+  const [scannedCode, setScannedCode] = useState<string | null>(null);
 
-  const loadRecords = async () => {
+  const sort = sortOverride ?? activeView?.sort ?? DEFAULT_SORT;
+
+  /**
+   * A view's filters, narrowed to records holding the scanned code when there is one
+   */
+  const withScannedCode = (filters: RecordFilters | undefined, fields: Field[]): RecordFilters | undefined =>
+    scannedCode ? combineFilters(filters, barcodeSearchFilter(fields, scannedCode) ?? undefined) : filters;
+
+  const filters = withScannedCode(activeView?.filters, formFields);
+
+  const {
+    data: records,
+    error: recordsError,
+    total,
+    hasMore,
+    loadingMore,
+    loadMore,
+    refresh: refreshRecords,
+  } = useRecords(ready ? formId : null, { valueKeys, filters, sort });
+
+  // Records still being saved are shown first if they would match the view
+  const pendingRecords = usePendingRecords(formId);
+  const { pending, pendingFilterError } = useMemo(() => {
+    if (!hasFilters(filters)) return { pending: pendingRecords, pendingFilterError: null };
+    try {
+      return { pending: filterRecords(pendingRecords, filters), pendingFilterError: null };
+    } catch (err) {
+      // A condition the filters can't apply on the device; show them all rather than none
+      logger.error('Filter pending records error:', err);
+      return { pending: pendingRecords, pendingFilterError: getErrorMessage(err) };
+    }
+  }, [pendingRecords, filters]);
+  const shownRecords = useMemo(() => [...pending, ...(records ?? [])], [pending, records]);
+
+  /**
+   * Load the form's fields and views, which decide which records are shown and how
+   */
+  const loadView = async () => {
     try {
       setLoading(true);
       setError(null);
-      const data = await recordAPI.getByFormId(formId);
-      setRecords(data || []);
+
+      const [allFields, formViews] = await Promise.all([fieldAPI.getByFormId(formId), savedViews.getByForm(formId)]);
+      const view = formViews.find(v => v.id === viewId) ?? null;
+
+      // A view may show only some columns, in its own order
+      const visible = view && view.columns.length > 0 ? view.columns : null;
+      const fields = visible
+        ? visible.map(name => allFields.find(f => f.name === name)).filter((f): f is Field => !!f)
+        : allFields;
+
+      // Images are left out of list pages and loaded on demand
+      const images = fields.filter(f => f.field_type === 'image').map(f => f.name);
+      const keys = images.length > 0 || visible ? fields.filter(f => f.field_type !== 'image').map(f => f.name) : undefined;
+
+      setViews(formViews);
+      setFormFields(allFields);
+      setSortFields(allFields.filter(isSortableField));
+      setActiveView(view);
+      setColumns(visible);
+      setImageKeys(images);
+      setValueKeys(keys);
+      setReady(true);
     } catch (err: any) {
       const errorMessage = getErrorMessage(err);
       setError(errorMessage);
-      logger.error('Load records error:', err);
+      logger.error('Load view error:', err);
     } finally {
       setLoading(false);
     }
   };
 
+  const retry = () => {
+    loadView();
+    refreshRecords();
+  };
+
+  // Opening a view from another screen updates the params of this one
+  useEffect(() => {
+    selectView(route.params.viewId);
+  }, [route.params.viewId]);
+
   useFocusEffect(
     useCallback(() => {
-      loadRecords();
-    }, [])
+      loadView();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [viewId])
   );
 
-  const handleDelete = (id: number) => {
-    Alert.alert(
-      'Delete Record',
-      'Are you sure you want to delete this record? This action cannot be undone.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await recordAPI.delete(id);
-              Alert.alert('Success', 'Record deleted successfully');
-              loadRecords();
-            } catch (err: any) {
-              const errorMessage = getErrorMessage(err);
-              Alert.alert('Error', errorMessage || 'Failed to delete record. Please try again.');
-              logger.error('Delete record error:', err);
-            }
-          },
-        },
-      ]
-    );
+  const openScanner = () => {
+    if (!barcodeSearchFilter(formFields, '')) {
+      Alert.alert('Nothing to Search', 'This form has no barcode or text fields to match a scanned code against');
+      return;
+    }
+    setScanning(true);
+  };
+
+  const selectView = (id?: string) => {
+    setViewId(id);
+    setSortOverride(null);
+  };
+
+  const selectSortField = (field?: Field) => {
+    setSortOverride(sortByField(field, sort.direction));
+  };
+
+  const toggleSortDirection = () => {
+    setSortOverride({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+  };
+
+  const handleLoadValue = async (record: Record, key: string) => {
+    try {
+      setLoadingValue(`${record.id}:${key}`);
+      const value = await recordAPI.getValue(record.id, key);
+      dataStore.updateLocally('record', [{ ...record, values: { ...record.values, [key]: value } }]);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.LOAD_VALUE_FAILED);
+      logger.error('Load value error:', err);
+    } finally {
+      setLoadingValue(null);
+    }
+  };
+
+  /**
+   * Remove a record at once; it is deleted on the server unless the delete is undone within a few seconds
+   */
+  const handleDelete = (record: Record) => {
+    deleteWithUndo({
+      entity: 'record',
+      id: record.id,
+      message: `Deleted record #${record.id}`,
+      failureMessage: ERROR_MESSAGES.DELETE_RECORD_FAILED,
+      commit: () => recordAPI.delete(record.id),
+      operation: { type: 'record.delete', id: record.id },
+      description: `Delete record #${record.id} from ${formName}`,
+    });
   };
 
   const handleCopy = async (record: Record) => {
     try {
-      const recordText = JSON.stringify(record.values, null, 2);
+      // List pages may leave out images, so copy the complete record
+      const full = valueKeys ? await recordAPI.getById(record.id) : record;
+      const recordText = JSON.stringify(full.values, null, 2);
       await Clipboard.setStringAsync(recordText);
       Alert.alert('Success', 'Record copied to clipboard');
     } catch (err) {
@@ -77,14 +207,30 @@ const RecordListScreen: React.FC<Props> = ({ navigation, route }) => {
     }
   };
 
-  const renderValue = (key: string, value: any): React.ReactElement | string => {
-    if (value === null || value === undefined) {
-      return 'N/A';
-    }
+  /**
+   * Values to show for a record: the active view's columns in order, or every value
+   */
+  const visibleEntries = (record: Record): [string, RecordValues[string]][] =>
+    columns
+      ? columns.filter(key => key in record.values).map(key => [key, record.values[key]])
+      : Object.entries(record.values);
+
+  const renderLazyValue = (record: Record, key: string): React.ReactElement => {
+    const isLoading = loadingValue === `${record.id}:${key}`;
+    return (
+      <TouchableOpacity onPress={() => handleLoadValue(record, key)} disabled={isLoading}>
+        {isLoading ? (
+          <ActivityIndicator size="small" color={colors.primary} style={styles.lazyLoader} />
+        ) : (
+          <Text style={styles.lazyLink}>📷 Load image</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
 
-    if (typeof value === 'object' && 'lat' in value && 'lng' in value) {
-      const loc = value as LocationValue;
-      return `${loc.lat.toFixed(6)}, ${loc.lng.toFixed(6)}`;
+  const renderValue = (key: string, value: any): React.ReactElement | string => {
+    if (Array.isArray(value) && value.length > 0) {
+      return <ValueChips values={value} />;
     }
 
     if (typeof value === 'string' && value.startsWith('data:image')) {
@@ -98,53 +244,154 @@ const RecordListScreen: React.FC<Props> = ({ navigation, route }) => {
       );
     }
 
-    return String(value);
+    return formatFieldValue(value, formFields.find(f => f.name === key));
   };
 
-  if (loading) {
+  // Records already held in the store stay on screen while the view is reloaded
+  if ((loading && !ready) || (ready && records === undefined && !recordsError)) {
     return <Loading message="Loading records..." />;
   }
 
-  if (error) {
-    return <ErrorView message={error} onRetry={loadRecords} />;
+  if (error || (recordsError && records === undefined)) {
+    return <ErrorView message={error ?? recordsError!} onRetry={retry} />;
   }
 
   return (
     <View style={styles.container}>
       <View style={styles.header}>
+        {total !== null && (
+          <Text style={styles.count}>
+            Showing {records?.length ?? 0} of {total} {total === 1 ? 'record' : 'records'}
+          </Text>
+        )}
         <Button
-          title="Filter Records"
-          onPress={() => navigation.navigate('FilterBuilder', { formId, formName })}
+          title={activeView ? 'Edit View' : 'Filter Records'}
+          onPress={() => navigation.navigate('FilterBuilder', { formId, formName, viewId: activeView?.id })}
           variant="secondary"
           size="small"
           style={styles.filterButton}
         />
+        <Button
+          title="Export"
+          onPress={() => navigation.navigate('Export', { formId, formName, filters, sort })}
+          variant="secondary"
+          size="small"
+          style={styles.exportButton}
+        />
+        <Button
+          title="Scan"
+          onPress={openScanner}
+          variant="secondary"
+          size="small"
+          style={styles.exportButton}
+        />
       </View>
 
+      {scannedCode && (
+        <View style={styles.scanBanner}>
+          <Text style={styles.scanBannerText} numberOfLines={1}>
+            Matching "{scannedCode}"
+          </Text>
+          <TouchableOpacity onPress={() => setScannedCode(null)}>
+            <Text style={styles.scanBannerClear}>Clear</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {pendingFilterError && pending.length > 0 && (
+        <View style={styles.filterErrorBanner}>
+          <Text style={styles.filterErrorText}>
+            Records still being saved are all shown, as this view's filters can't be checked here: {pendingFilterError}
+          </Text>
+        </View>
+      )}
+
+      {views.length > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.viewsScroll}
+          contentContainerStyle={styles.views}
+        >
+          {[null, ...views].map(view => {
+            const selected = (view?.id ?? null) === (activeView?.id ?? null);
+            return (
+              <TouchableOpacity
+                key={view?.id ?? 'all'}
+                style={[styles.viewChip, selected && styles.viewChipSelected]}
+                onPress={() => selectView(view?.id)}
+              >
+                <Text style={[styles.viewChipText, selected && styles.viewChipTextSelected]}>
+                  {view ? view.name : 'All Records'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.viewsScroll}
+        contentContainerStyle={styles.views}
+      >
+        <TouchableOpacity style={[styles.viewChip, styles.viewChipSelected]} onPress={toggleSortDirection}>
+          <Text style={[styles.viewChipText, styles.viewChipTextSelected]}>
+            {sort.direction === 'asc' ? '↑ Asc' : '↓ Desc'}
+          </Text>
+        </TouchableOpacity>
+        {[undefined, ...sortFields].map(field => {
+          const selected = (field?.name ?? null) === (sort.field ?? null);
+          return (
+            <TouchableOpacity
+              key={field?.id ?? 'id'}
+              style={[styles.viewChip, selected && styles.sortChipSelected]}
+              onPress={() => selectSortField(field)}
+            >
+              <Text style={[styles.viewChipText, selected && styles.sortChipTextSelected]}>
+                {field ? field.name : 'Record #'}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+
       <FlatList
-        data={records}
+        data={shownRecords}
         keyExtractor={(item) => item.id.toString()}
         contentContainerStyle={styles.list}
+        onEndReached={loadMore}
+        onEndReachedThreshold={PAGINATION_CONFIG.END_REACHED_THRESHOLD}
+        ListFooterComponent={
+          loadingMore ? <ActivityIndicator color={colors.primary} style={styles.listFooter} /> : null
+        }
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyIcon}>📄</Text>
-            <Text style={styles.emptyText}>No records yet</Text>
-            <Text style={styles.emptySubtext}>Fill the form to create your first record</Text>
+            <Text style={styles.emptyText}>{activeView || scannedCode ? 'No matching records' : 'No records yet'}</Text>
+            <Text style={styles.emptySubtext}>
+              {scannedCode
+                ? 'No records hold the scanned code'
+                : activeView
+                  ? 'No records match this view\'s filters'
+                  : 'Fill the form to create your first record'}
+            </Text>
           </View>
         }
         renderItem={({ item }) => (
-          <Card style={styles.recordCard}>
-            <Text style={styles.recordId}>Record #{item.id}</Text>
+          <Card style={isPending(item) ? { ...styles.recordCard, ...styles.pendingCard } : styles.recordCard}>
+            <Text style={styles.recordId}>{isPending(item) ? 'New record · Saving…' : `Record #${item.id}`}</Text>
 
             <View style={styles.values}>
-              {Object.entries(item.values).map(([key, value]) => {
+              {visibleEntries(item).map(([key, value]) => {
                 const renderedValue = renderValue(key, value);
-                const isImageElement = typeof renderedValue !== 'string';
+                const isElement = typeof renderedValue !== 'string';
 
                 return (
                   <View key={key} style={styles.valueRow}>
                     <Text style={styles.valueKey}>{key}:</Text>
-                    {isImageElement ? (
+                    {isElement ? (
                       <View style={styles.imageValueContainer}>{renderedValue}</View>
                     ) : (
                       <Text style={styles.valueText}>{renderedValue}</Text>
@@ -152,24 +399,41 @@ const RecordListScreen: React.FC<Props> = ({ navigation, route }) => {
                   </View>
                 );
               })}
+              {!isPending(item) && imageKeys
+                .filter(key => !(key in item.values))
+                .map(key => (
+                  <View key={key} style={styles.valueRow}>
+                    <Text style={styles.valueKey}>{key}:</Text>
+                    <View style={styles.imageValueContainer}>{renderLazyValue(item, key)}</View>
+                  </View>
+                ))}
             </View>
 
-            <View style={styles.actions}>
-              <Button
-                title="Copy"
-                onPress={() => handleCopy(item)}
-                variant="secondary"
-                size="small"
-                style={styles.actionButton}
-              />
-              <Button
-                title="Delete"
-                onPress={() => handleDelete(item.id)}
-                variant="danger"
-                size="small"
-                style={styles.actionButton}
-              />
-            </View>
+            {!isPending(item) && (
+              <View style={styles.actions}>
+                <Button
+                  title="Edit"
+                  onPress={() => navigation.navigate('RecordEdit', { formId, formName, recordId: item.id })}
+                  variant="secondary"
+                  size="small"
+                  style={styles.actionButton}
+                />
+                <Button
+                  title="Copy"
+                  onPress={() => handleCopy(item)}
+                  variant="secondary"
+                  size="small"
+                  style={styles.actionButton}
+                />
+                <Button
+                  title="Delete"
+                  onPress={() => handleDelete(item)}
+                  variant="danger"
+                  size="small"
+                  style={styles.actionButton}
+                />
+              </View>
+            )}
           </Card>
         )}
       />
@@ -214,6 +478,16 @@ const RecordListScreen: React.FC<Props> = ({ navigation, route }) => {
           </TouchableOpacity>
         </View>
       </Modal>
+
+      <BarcodeScanner
+        visible={scanning}
+        title="Scan to search"
+        onScanned={(code) => {
+          setScanning(false);
+          setScannedCode(code.text);
+        }}
+        onClose={() => setScanning(false)}
+      />
     </View>
   );
 };
@@ -224,11 +498,91 @@ const styles = StyleSheet.create({
     backgroundColor: colors.background,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: spacing.lg,
     paddingBottom: spacing.sm,
   },
+  count: {
+    flex: 1,
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+  },
   filterButton: {
-    alignSelf: 'flex-end',
+    marginLeft: 'auto',
+  },
+  exportButton: {
+    marginLeft: spacing.sm,
+  },
+  scanBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.md,
+  },
+  scanBannerText: {
+    flex: 1,
+    fontSize: typography.bodySmall,
+    color: colors.text,
+  },
+  scanBannerClear: {
+    fontSize: typography.bodySmall,
+    fontWeight: typography.semibold,
+    color: colors.primary,
+    marginLeft: spacing.md,
+  },
+  filterErrorBanner: {
+    marginHorizontal: spacing.lg,
+    marginBottom: spacing.sm,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.error,
+    borderRadius: borderRadius.md,
+  },
+  filterErrorText: {
+    fontSize: typography.bodySmall,
+    color: colors.error,
+  },
+  views: {
+    gap: spacing.sm,
+    paddingHorizontal: spacing.lg,
+    paddingBottom: spacing.sm,
+  },
+  viewsScroll: {
+    flexGrow: 0,
+  },
+  viewChip: {
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: borderRadius.full,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  viewChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  viewChipText: {
+    fontSize: typography.bodySmall,
+    color: colors.text,
+  },
+  viewChipTextSelected: {
+    color: colors.textInverse,
+    fontWeight: typography.semibold,
+  },
+  sortChipSelected: {
+    borderColor: colors.primary,
+  },
+  sortChipTextSelected: {
+    color: colors.primary,
+    fontWeight: typography.semibold,
   },
   list: {
     padding: spacing.lg,
@@ -237,6 +591,9 @@ const styles = StyleSheet.create({
   recordCard: {
     marginBottom: spacing.md,
   },
+  pendingCard: {
+    opacity: 0.6,
+  },
   recordId: {
     fontSize: typography.bodySmall,
     fontWeight: typography.semibold,
@@ -274,6 +631,17 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: colors.primary,
   },
+  lazyLink: {
+    fontSize: typography.bodySmall,
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
+  lazyLoader: {
+    alignSelf: 'flex-start',
+  },
+  listFooter: {
+    paddingVertical: spacing.md,
+  },
   imageLabel: {
     fontSize: typography.caption,
     color: colors.primary,
@@ -1,98 +1,194 @@
-import React, { useState, useCallback } from 'react';
-import { View, Text, StyleSheet, FlatList, Alert, TouchableOpacity, Image, Modal } from 'react-native';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  Alert,
+  TouchableOpacity,
+  Image,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
 import { NativeStackScreenProps } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
 import * as Clipboard from 'expo-clipboard';
-import { RootStackParamList, Record, Form, LocationValue } from '../types';
-import { Button, Card, Loading, ErrorView } from '../components';
-import { recordAPI, formAPI } from '../services/api';
+import { RootStackParamList, Field, Record, RecordSort, Form } from '../types';
+import { Button, Card, Input, Loading, ErrorView, HighlightedText, ValueChips } from '../components';
+import { recordAPI, formAPI, fieldAPI } from '../services/api';
+import { dataStore, isPending } from '../services/dataStore';
+import { usePendingRecords, useRecords } from '../hooks/useStore';
+import { deleteWithUndo } from '../services/optimistic';
+import { withFormNames, FormRecord } from '../services/formRecords';
+import { searchAll, SearchResults } from '../services/searchService';
 import { colors, spacing, typography, borderRadius } from '../theme';
+import { ERROR_MESSAGES, PAGINATION_CONFIG, SEARCH_CONFIG } from '../constants/appConstants';
 import { logger } from '../utils/logger';
 import { getErrorMessage } from '../utils/errors';
+import { describeSort } from '../utils/recordSort';
+import { getSnippet } from '../utils/textSearch';
+import { formatFieldValue } from '../utils/fieldValues';
 
 type Props = NativeStackScreenProps<RootStackParamList, 'RecordsList'>;
 
-interface RecordWithForm extends Record {
-  formName: string;
-}
-
 const RecordsListScreen: React.FC<Props> = ({ navigation }) => {
-  const [records, setRecords] = useState<RecordWithForm[]>([]);
+  const [forms, setForms] = useState<Form[] | null>(null);
+  // Forms have different fields, so records from all of them are only ordered by id
+  const [sort, setSort] = useState<RecordSort>({ direction: 'desc' });
+  const [fields, setFields] = useState<Field[]>([]);
+  const [imageKeys, setImageKeys] = useState<{ [formId: number]: string[] }>({});
+  const [valueKeys, setValueKeys] = useState<string[] | undefined>(undefined);
   const [loading, setLoading] = useState(true);
+  const [loadingValue, setLoadingValue] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResults | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [searchAttempt, setSearchAttempt] = useState(0);
+  // Only the latest search may update the results
+  const searchRequest = useRef(0);
+
+  const isSearchActive = searchTerm.trim().length >= SEARCH_CONFIG.MIN_TERM_LENGTH;
+
+  const {
+    data,
+    error: recordsError,
+    total,
+    loadingMore,
+    loadMore,
+    refresh: refreshRecords,
+  } = useRecords(forms ? forms.map(f => f.id) : null, { sort, valueKeys });
+  const records = useMemo(() => (data ? withFormNames(data, forms ?? []) : undefined), [data, forms]);
 
-  const loadAllRecords = async () => {
+  // Records still being saved are shown first
+  const pendingRecords = usePendingRecords();
+  const shownRecords = useMemo(
+    () => [...withFormNames(pendingRecords, forms ?? []), ...(records ?? [])],
+    [pendingRecords, forms, records]
+  );
+
+  /**
+   * Load the forms and their fields, which decide which values list pages fetch
+   */
+  const loadForms = async () => {
     try {
       setLoading(true);
       setError(null);
 
-      // Get all forms first
-      const forms = await formAPI.getAll();
-
-      // Load records for each form
-      const allRecords: RecordWithForm[] = [];
-
-      for (const form of forms) {
-        try {
-          const formRecords = await recordAPI.getByFormId(form.id);
-          // Add form name to each record
-          const recordsWithFormName = formRecords.map(record => ({
-            ...record,
-            formName: form.name,
-          }));
-          allRecords.push(...recordsWithFormName);
-        } catch (err) {
-          logger.log(`Failed to load records for form ${form.id}:`, err);
-        }
-      }
+      const allForms = await formAPI.getAll();
+      const formIds = allForms.map(f => f.id);
 
-      // Sort by record ID descending (newest first)
-      allRecords.sort((a, b) => b.id - a.id);
+      // Images are left out of list pages and loaded on demand
+      const formFields = await fieldAPI.getByFormIds(formIds);
+      const images: { [formId: number]: string[] } = {};
+      formFields
+        .filter(f => f.field_type === 'image')
+        .forEach(f => {
+          images[f.form_id] = [...(images[f.form_id] || []), f.name];
+        });
+      const hasImages = Object.keys(images).length > 0;
+      const keys = hasImages
+        ? Array.from(new Set(formFields.filter(f => f.field_type !== 'image').map(f => f.name)))
+        : undefined;
 
-      setRecords(allRecords);
+      setForms(allForms);
+      setFields(formFields);
+      setImageKeys(images);
+      setValueKeys(keys);
     } catch (err: any) {
       const errorMessage = getErrorMessage(err);
       setError(errorMessage);
-      logger.error('Load records error:', err);
+      logger.error('Load forms error:', err);
     } finally {
       setLoading(false);
     }
   };
 
+  const retry = () => {
+    loadForms();
+    refreshRecords();
+  };
+
   useFocusEffect(
     useCallback(() => {
-      loadAllRecords();
+      loadForms();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [])
   );
 
-  const handleDelete = (id: number) => {
-    Alert.alert(
-      'Delete Record',
-      'Are you sure you want to delete this record? This action cannot be undone.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: async () => {
-            try {
-              await recordAPI.delete(id);
-              setRecords(records.filter(r => r.id !== id));
-              Alert.alert('Success', 'Record deleted successfully');
-            } catch (err) {
-              Alert.alert('Error', 'Failed to delete record. Please try again.');
-              logger.error(err);
-            }
-          },
-        },
-      ]
-    );
+  const toggleSortDirection = () => {
+    setSort({ direction: sort.direction === 'desc' ? 'asc' : 'desc' });
+  };
+
+  // Search once typing pauses
+  useEffect(() => {
+    const request = ++searchRequest.current;
+    const term = searchTerm.trim();
+    if (term.length < SEARCH_CONFIG.MIN_TERM_LENGTH) {
+      setSearchResults(null);
+      setSearchError(null);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    setSearchError(null);
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchAll(term);
+        if (request !== searchRequest.current) return;
+        setSearchResults(results);
+        setSearchError(null);
+      } catch (err) {
+        if (request !== searchRequest.current) return;
+        setSearchError(getErrorMessage(err) || ERROR_MESSAGES.SEARCH_FAILED);
+        logger.error('Search error:', err);
+      } finally {
+        if (request === searchRequest.current) setSearching(false);
+      }
+    }, SEARCH_CONFIG.DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [searchTerm, searchAttempt]);
+
+  const handleLoadValue = async (record: Record, key: string) => {
+    try {
+      setLoadingValue(`${record.id}:${key}`);
+      const value = await recordAPI.getValue(record.id, key);
+      const { formName, ...held } = record as FormRecord;
+      dataStore.updateLocally('record', [{ ...held, values: { ...held.values, [key]: value } }]);
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.LOAD_VALUE_FAILED);
+      logger.error('Load value error:', err);
+    } finally {
+      setLoadingValue(null);
+    }
+  };
+
+  /**
+   * Remove a record at once; it is deleted on the server unless the delete is undone within a few seconds
+   */
+  const handleDelete = (record: FormRecord) => {
+    deleteWithUndo({
+      entity: 'record',
+      id: record.id,
+      message: `Deleted record #${record.id}`,
+      failureMessage: ERROR_MESSAGES.DELETE_RECORD_FAILED,
+      commit: () => recordAPI.delete(record.id),
+      operation: { type: 'record.delete', id: record.id },
+      description: `Delete record #${record.id} from ${record.formName}`,
+    });
   };
 
   const handleCopy = async (record: Record) => {
     try {
-      await Clipboard.setStringAsync(JSON.stringify(record, null, 2));
+      // List pages may leave out images, so copy the complete record
+      const full = valueKeys ? await recordAPI.getById(record.id) : record;
+      await Clipboard.setStringAsync(JSON.stringify(full, null, 2));
       Alert.alert('Success', 'Record copied to clipboard');
     } catch (err) {
       Alert.alert('Error', 'Failed to copy record');
@@ -100,21 +196,12 @@ const RecordsListScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
-  const renderValue = (key: string, value: any): string => {
-    if (value === null || value === undefined) {
-      return 'N/A';
-    }
-
-    if (typeof value === 'object' && 'lat' in value && 'lng' in value) {
-      const loc = value as LocationValue;
-      return `${loc.lat.toFixed(6)}, ${loc.lng.toFixed(6)}`;
-    }
-
+  const renderValue = (record: FormRecord, key: string, value: any): string => {
     if (typeof value === 'string' && value.startsWith('data:image')) {
       return '[Image]';
     }
 
-    return String(value);
+    return formatFieldValue(value, fields.find(f => f.form_id === record.form_id && f.name === key));
   };
 
   const renderImageValue = (key: string, value: any): React.ReactElement | null => {
@@ -128,43 +215,161 @@ const RecordsListScreen: React.FC<Props> = ({ navigation }) => {
     return null;
   };
 
-  const renderRecord = ({ item }: { item: RecordWithForm }) => (
-    <Card style={styles.recordCard}>
+  const renderRecord = ({ item }: { item: FormRecord }) => (
+    <Card style={isPending(item) ? { ...styles.recordCard, ...styles.pendingCard } : styles.recordCard}>
       <View style={styles.recordHeader}>
         <View>
-          <Text style={styles.recordId}>Record #{item.id}</Text>
+          <Text style={styles.recordId}>{isPending(item) ? 'New record · Saving…' : `Record #${item.id}`}</Text>
           <Text style={styles.formName}>{item.formName}</Text>
         </View>
-        <View style={styles.actions}>
-          <TouchableOpacity
-            onPress={() => handleCopy(item)}
-            style={styles.iconButton}
-          >
-            <Text style={styles.actionIcon}>📋</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            onPress={() => handleDelete(item.id)}
-            style={styles.iconButton}
-          >
-            <Text style={styles.actionIcon}>🗑️</Text>
-          </TouchableOpacity>
-        </View>
+        {!isPending(item) && (
+          <View style={styles.actions}>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('RecordEdit', {
+                formId: item.form_id,
+                formName: item.formName,
+                recordId: item.id,
+              })}
+              style={styles.iconButton}
+            >
+              <Text style={styles.actionIcon}>✏️</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleCopy(item)}
+              style={styles.iconButton}
+            >
+              <Text style={styles.actionIcon}>📋</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => handleDelete(item)}
+              style={styles.iconButton}
+            >
+              <Text style={styles.actionIcon}>🗑️</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
 
       <View style={styles.values}>
         {Object.entries(item.values).map(([key, value]) => (
           <View key={key} style={styles.valueRow}>
             <Text style={styles.valueKey}>{key}:</Text>
-            {renderImageValue(key, value) || (
-              <Text style={styles.valueText}>{renderValue(key, value)}</Text>
-            )}
+            {renderImageValue(key, value) ||
+              (Array.isArray(value) && value.length > 0 ? (
+                <ValueChips values={value} />
+              ) : (
+                <Text style={styles.valueText}>{renderValue(item, key, value)}</Text>
+              ))}
           </View>
         ))}
+        {!isPending(item) && (imageKeys[item.form_id] || [])
+          .filter(key => !(key in item.values))
+          .map(key => {
+            const isLoading = loadingValue === `${item.id}:${key}`;
+            return (
+              <View key={key} style={styles.valueRow}>
+                <Text style={styles.valueKey}>{key}:</Text>
+                <TouchableOpacity onPress={() => handleLoadValue(item, key)} disabled={isLoading}>
+                  {isLoading ? (
+                    <ActivityIndicator size="small" color={colors.primary} />
+                  ) : (
+                    <Text style={styles.lazyLink}>📷 Load image</Text>
+                  )}
+                </TouchableOpacity>
+              </View>
+            );
+          })}
       </View>
     </Card>
   );
 
-  if (loading) {
+  const renderSearchResults = () => {
+    if (searchError) {
+      return <ErrorView message={searchError} onRetry={() => setSearchAttempt(attempt => attempt + 1)} />;
+    }
+
+    if (!searchResults) {
+      return <ActivityIndicator color={colors.primary} style={styles.listFooter} />;
+    }
+
+    const { term, groups, recordCount, truncated, local } = searchResults;
+    return (
+      <ScrollView contentContainerStyle={styles.list} keyboardShouldPersistTaps="handled">
+        <View style={styles.listHeader}>
+          <Text style={styles.count}>
+            {recordCount} {recordCount === 1 ? 'record' : 'records'} in {groups.length}{' '}
+            {groups.length === 1 ? 'form' : 'forms'}
+            {truncated && ` (first ${SEARCH_CONFIG.MAX_RESULTS} shown)`}
+          </Text>
+          {searching && <ActivityIndicator size="small" color={colors.primary} />}
+          {local && (
+            <View style={styles.localBadge}>
+              <Text style={styles.localBadgeText}>Local data</Text>
+            </View>
+          )}
+        </View>
+
+        {groups.length === 0 && (
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🔍</Text>
+            <Text style={styles.emptyText}>No Matches</Text>
+            <Text style={styles.emptySubtext}>Nothing contains "{term}"</Text>
+          </View>
+        )}
+
+        {groups.map(group => (
+          <Card key={group.form.id} style={styles.recordCard}>
+            <TouchableOpacity
+              style={styles.resultHeader}
+              onPress={() => navigation.navigate('FormDetail', { formId: group.form.id, formName: group.form.name })}
+            >
+              <HighlightedText text={group.form.name} term={term} style={styles.formName} />
+              {group.matches
+                .filter(match => match.key === 'Description')
+                .map(match => (
+                  <HighlightedText
+                    key={match.key}
+                    text={getSnippet(match.text, term)}
+                    term={term}
+                    style={styles.valueText}
+                  />
+                ))}
+              <Text style={styles.recordId}>
+                {group.records.length} matching {group.records.length === 1 ? 'record' : 'records'}
+              </Text>
+            </TouchableOpacity>
+
+            {group.records.map(({ record, matches }) => (
+              <TouchableOpacity
+                key={record.id}
+                style={styles.resultRow}
+                onPress={() => navigation.navigate('RecordEdit', {
+                  formId: group.form.id,
+                  formName: group.form.name,
+                  recordId: record.id,
+                })}
+              >
+                <Text style={styles.recordId}>Record #{record.id} ›</Text>
+                {matches.map(match => (
+                  <View key={match.key} style={styles.valueRow}>
+                    <Text style={styles.valueKey}>{match.key}:</Text>
+                    <HighlightedText
+                      text={getSnippet(match.text, term)}
+                      term={term}
+                      style={styles.valueText}
+                    />
+                  </View>
+                ))}
+              </TouchableOpacity>
+            ))}
+          </Card>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  // Records already held in the store stay on screen while the forms are reloaded
+  if ((loading && !forms) || (forms && records === undefined && !recordsError)) {
     return (
       <View style={styles.container}>
         <Loading message="Loading records..." />
@@ -172,17 +377,32 @@ const RecordsListScreen: React.FC<Props> = ({ navigation }) => {
     );
   }
 
-  if (error) {
+  if (error || (recordsError && records === undefined)) {
     return (
       <View style={styles.container}>
-        <ErrorView message={error} onRetry={loadAllRecords} />
+        <ErrorView message={error ?? recordsError!} onRetry={retry} />
       </View>
     );
   }
 
   return (
     <View style={styles.container}>
-        {records.length === 0 ? (
+        <View style={styles.searchBar}>
+          <Input
+            value={searchTerm}
+            onChangeText={setSearchTerm}
+            placeholder="Search forms and records"
+            autoCapitalize="none"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            returnKeyType="search"
+            containerStyle={styles.searchInput}
+          />
+        </View>
+
+        {isSearchActive ? (
+          renderSearchResults()
+        ) : shownRecords.length === 0 ? (
           <View style={styles.emptyContainer}>
             <Text style={styles.emptyIcon}>📝</Text>
             <Text style={styles.emptyText}>No Records Yet</Text>
@@ -198,11 +418,30 @@ const RecordsListScreen: React.FC<Props> = ({ navigation }) => {
           </View>
         ) : (
           <FlatList
-            data={records}
+            data={shownRecords}
             renderItem={renderRecord}
             keyExtractor={(item) => item.id.toString()}
             contentContainerStyle={styles.list}
             showsVerticalScrollIndicator={false}
+            onEndReached={loadMore}
+            onEndReachedThreshold={PAGINATION_CONFIG.END_REACHED_THRESHOLD}
+            ListHeaderComponent={
+              <View style={styles.listHeader}>
+                {total !== null && (
+                  <Text style={styles.count}>
+                    Showing {records?.length ?? 0} of {total} {total === 1 ? 'record' : 'records'}
+                  </Text>
+                )}
+                <TouchableOpacity onPress={toggleSortDirection} style={styles.sortToggle}>
+                  <Text style={styles.sortText}>
+                    {sort.direction === 'desc' ? '↓' : '↑'} {describeSort(sort)}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            }
+            ListFooterComponent={
+              loadingMore ? <ActivityIndicator color={colors.primary} style={styles.listFooter} /> : null
+            }
           />
         )}
 
@@ -246,6 +485,65 @@ const styles = StyleSheet.create({
   list: {
     padding: spacing.lg,
   },
+  searchBar: {
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.md,
+  },
+  searchInput: {
+    marginBottom: 0,
+  },
+  resultHeader: {
+    gap: spacing.xs,
+    paddingBottom: spacing.sm,
+  },
+  resultRow: {
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  localBadge: {
+    marginLeft: spacing.sm,
+    backgroundColor: colors.warning + '20',
+    borderWidth: 1,
+    borderColor: colors.warning,
+    borderRadius: borderRadius.full,
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+  },
+  localBadgeText: {
+    fontSize: typography.caption,
+    color: colors.warning,
+    fontWeight: typography.semibold,
+  },
+  listHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  count: {
+    flex: 1,
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+  },
+  sortToggle: {
+    marginLeft: 'auto',
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  sortText: {
+    fontSize: typography.caption,
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
+  listFooter: {
+    paddingVertical: spacing.md,
+  },
+  lazyLink: {
+    fontSize: typography.bodySmall,
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
   recordCard: {
     marginBottom: spacing.md,
     padding: spacing.md,
@@ -259,6 +557,9 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: colors.border,
   },
+  pendingCard: {
+    opacity: 0.6,
+  },
   recordId: {
     fontSize: typography.bodySmall,
     fontWeight: typography.semibold,
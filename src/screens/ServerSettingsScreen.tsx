@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, FlatList, Alert, TouchableOpacity } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList, ServerProfile } from '../types';
+import { Button, Card, Loading } from '../components';
+import { authAPI } from '../services/api';
+import { session } from '../services/session';
+import { colors, spacing, typography, borderRadius } from '../theme';
+import { logger } from '../utils/logger';
+import { AuthError, getErrorMessage } from '../utils/errors';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'ServerSettings'>;
+
+type TestResult = { ok: boolean; message: string };
+
+const ServerSettingsScreen: React.FC<Props> = ({ navigation }) => {
+  const [profiles, setProfiles] = useState<ServerProfile[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [signedOut, setSignedOut] = useState<{ [id: string]: boolean }>({});
+  const [loading, setLoading] = useState(true);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [results, setResults] = useState<{ [id: string]: TestResult }>({});
+
+  const loadProfiles = async () => {
+    try {
+      await session.load();
+      const all = session.getProfiles();
+      const tokens = await Promise.all(all.map(profile => session.getToken(profile.id)));
+
+      setProfiles(all);
+      setActiveId(session.getActiveProfile()?.id ?? null);
+      setSignedOut(Object.fromEntries(all.map((profile, index) => [profile.id, !tokens[index]])));
+    } catch (err) {
+      logger.error('Load profiles error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProfiles();
+    return session.subscribe(() => {
+      loadProfiles();
+    });
+  }, []);
+
+  const handleSelect = async (profile: ServerProfile) => {
+    if (profile.id === activeId) return;
+
+    if (signedOut[profile.id]) {
+      navigation.navigate('ProfileEdit', { profileId: profile.id });
+      return;
+    }
+
+    Alert.alert(
+      'Switch Server',
+      `Switch to "${profile.name}"? Cached data from the current server will be cleared.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Switch', onPress: () => session.activate(profile.id) },
+      ]
+    );
+  };
+
+  const handleTest = async (profile: ServerProfile) => {
+    try {
+      setTesting(profile.id);
+      const token = await session.getToken(profile.id);
+      if (!token) {
+        throw new AuthError('No token stored for this profile. Edit it to add one.');
+      }
+
+      const latency = await authAPI.testConnection(profile.baseUrl, profile.username, token);
+      setResults(prev => ({ ...prev, [profile.id]: { ok: true, message: `Connected (${latency} ms)` } }));
+    } catch (err) {
+      setResults(prev => ({ ...prev, [profile.id]: { ok: false, message: getErrorMessage(err) } }));
+      logger.error('Connection test error:', err);
+    } finally {
+      setTesting(null);
+    }
+  };
+
+  const handleDelete = (profile: ServerProfile) => {
+    Alert.alert(
+      'Delete Profile',
+      profile.id === activeId
+        ? `"${profile.name}" is the active profile. Deleting it will sign you out.`
+        : `Are you sure you want to delete "${profile.name}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => session.deleteProfile(profile.id),
+        },
+      ]
+    );
+  };
+
+  const renderProfile = ({ item }: { item: ServerProfile }) => {
+    const isActive = item.id === activeId;
+    const result = results[item.id];
+
+    return (
+      <TouchableOpacity onPress={() => handleSelect(item)} activeOpacity={0.8}>
+        <Card style={isActive ? { ...styles.profileCard, ...styles.activeCard } : styles.profileCard}>
+          <View style={styles.profileHeader}>
+            <Text style={styles.profileName}>{item.name}</Text>
+            {isActive && (
+              <View style={styles.badge}>
+                <Text style={styles.badgeText}>Active</Text>
+              </View>
+            )}
+            {!isActive && signedOut[item.id] && (
+              <View style={[styles.badge, styles.signedOutBadge]}>
+                <Text style={[styles.badgeText, styles.signedOutText]}>Signed out</Text>
+              </View>
+            )}
+          </View>
+          <Text style={styles.profileMeta}>{item.baseUrl}</Text>
+          <Text style={styles.profileMeta}>User: {item.username}</Text>
+
+          {result && (
+            <Text style={[styles.result, { color: result.ok ? colors.success : colors.error }]}>
+              {result.ok ? '✓ ' : '✗ '}{result.message}
+            </Text>
+          )}
+
+          <View style={styles.actions}>
+            <TouchableOpacity
+              onPress={() => handleTest(item)}
+              disabled={testing !== null}
+              style={styles.actionLink}
+            >
+              <Text style={styles.actionText}>{testing === item.id ? 'Testing...' : 'Test'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => navigation.navigate('ProfileEdit', { profileId: item.id })}
+              style={styles.actionLink}
+            >
+              <Text style={styles.actionText}>Edit</Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleDelete(item)} style={styles.actionLink}>
+              <Text style={styles.deleteText}>Delete</Text>
+            </TouchableOpacity>
+          </View>
+        </Card>
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return <Loading message="Loading servers..." />;
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={profiles}
+        keyExtractor={(item) => item.id}
+        renderItem={renderProfile}
+        contentContainerStyle={styles.list}
+        ListHeaderComponent={
+          <Text style={styles.hint}>
+            Tap a profile to make it active. All forms, fields and records are read from the active server.
+          </Text>
+        }
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Text style={styles.emptyIcon}>🖥️</Text>
+            <Text style={styles.emptyText}>No server profiles</Text>
+            <Text style={styles.emptySubtext}>Add a profile to connect to a PostgREST server</Text>
+          </View>
+        }
+      />
+
+      <View style={styles.footer}>
+        <Button
+          title="Add Profile"
+          onPress={() => navigation.navigate('ProfileEdit')}
+          size="large"
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  list: {
+    padding: spacing.lg,
+  },
+  hint: {
+    fontSize: typography.bodySmall,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  profileCard: {
+    marginBottom: spacing.md,
+    padding: spacing.md,
+  },
+  activeCard: {
+    borderColor: colors.primary,
+    borderWidth: 1,
+  },
+  profileHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: spacing.xs,
+  },
+  profileName: {
+    flex: 1,
+    fontSize: typography.body,
+    fontWeight: typography.semibold,
+    color: colors.text,
+    marginRight: spacing.sm,
+  },
+  badge: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    borderRadius: borderRadius.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    fontSize: typography.caption,
+    fontWeight: typography.semibold,
+    color: colors.primary,
+  },
+  signedOutBadge: {
+    borderColor: colors.textTertiary,
+  },
+  signedOutText: {
+    color: colors.textTertiary,
+  },
+  profileMeta: {
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+    marginBottom: 2,
+  },
+  result: {
+    fontSize: typography.caption,
+    marginTop: spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
+    marginTop: spacing.sm,
+  },
+  actionLink: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  actionText: {
+    fontSize: typography.bodySmall,
+    color: colors.primary,
+    fontWeight: typography.semibold,
+  },
+  deleteText: {
+    fontSize: typography.bodySmall,
+    color: colors.error,
+  },
+  footer: {
+    padding: spacing.lg,
+    paddingTop: 0,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xxl,
+  },
+  emptyIcon: {
+    fontSize: 64,
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: typography.h3,
+    fontWeight: typography.semibold,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  emptySubtext: {
+    fontSize: typography.body,
+    color: colors.textTertiary,
+    textAlign: 'center',
+  },
+});
+
+export default ServerSettingsScreen;
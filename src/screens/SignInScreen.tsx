@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, ScrollView, Alert } from 'react-native';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { RootStackParamList } from '../types';
+import { Button, Card, Input } from '../components';
+import { authAPI } from '../services/api';
+import { session } from '../services/session';
+import { colors, spacing, typography } from '../theme';
+import { API_CONFIG, ERROR_MESSAGES, SUCCESS_MESSAGES } from '../constants/appConstants';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errors';
+
+type Props = NativeStackScreenProps<RootStackParamList, 'SignIn'>;
+
+const SignInScreen: React.FC<Props> = ({ navigation }) => {
+  const [currentUser, setCurrentUser] = useState<string | null>(session.getUsername());
+  const [baseUrl, setBaseUrl] = useState<string>(session.getActiveProfile()?.baseUrl ?? API_CONFIG.BASE_URL);
+  const [username, setUsername] = useState('');
+  const [token, setToken] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [errors, setErrors] = useState<{ baseUrl?: string; username?: string; token?: string }>({});
+
+  useEffect(() => session.subscribe(credentials => setCurrentUser(credentials?.username ?? null)), []);
+
+  const validate = (): boolean => {
+    const newErrors: { baseUrl?: string; username?: string; token?: string } = {};
+
+    if (!/^https?:\/\/\S+$/i.test(baseUrl.trim())) {
+      newErrors.baseUrl = ERROR_MESSAGES.INVALID_URL;
+    }
+
+    if (!username.trim()) {
+      newErrors.username = 'Username is required';
+    }
+
+    if (!token.trim()) {
+      newErrors.token = 'Token is required';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSignIn = async () => {
+    if (!validate()) return;
+
+    try {
+      setLoading(true);
+      await authAPI.testConnection(baseUrl, username.trim(), token.trim());
+      await session.signIn(username.trim(), token.trim(), baseUrl);
+      navigation.reset({ index: 0, routes: [{ name: 'MainTabs' }] });
+    } catch (err) {
+      const errorMessage = getErrorMessage(err);
+      Alert.alert('Error', errorMessage || ERROR_MESSAGES.SIGN_IN_FAILED);
+      logger.error('Sign in error:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    Alert.alert(
+      'Sign Out',
+      'Cached forms and records for this account will be removed from the device.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            await session.signOut();
+            Alert.alert('Signed Out', SUCCESS_MESSAGES.SIGNED_OUT);
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {currentUser && (
+        <Card style={styles.accountCard}>
+          <Text style={styles.accountLabel}>Signed in as</Text>
+          <Text style={styles.accountName}>{currentUser}</Text>
+          <Text style={styles.accountServer}>{session.getActiveProfile()?.name}</Text>
+          <Button
+            title="Sign Out"
+            onPress={handleSignOut}
+            variant="secondary"
+            size="small"
+            style={styles.signOutButton}
+          />
+        </Card>
+      )}
+
+      <Text style={styles.title}>{currentUser ? 'Switch Account' : 'Sign In'}</Text>
+      <Text style={styles.subtitle}>
+        Enter the username and API token issued for your account.
+      </Text>
+
+      <Input
+        label="Server"
+        value={baseUrl}
+        onChangeText={(text) => {
+          setBaseUrl(text);
+          if (errors.baseUrl) {
+            const newErrors = { ...errors };
+            delete newErrors.baseUrl;
+            setErrors(newErrors);
+          }
+        }}
+        placeholder="https://example.com/api"
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        error={errors.baseUrl}
+      />
+
+      <Input
+        label="Username"
+        value={username}
+        onChangeText={(text) => {
+          setUsername(text);
+          if (errors.username) {
+            const newErrors = { ...errors };
+            delete newErrors.username;
+            setErrors(newErrors);
+          }
+        }}
+        placeholder="e.g. s1234567"
+        autoCapitalize="none"
+        autoCorrect={false}
+        error={errors.username}
+      />
+
+      <Input
+        label="Token"
+        value={token}
+        onChangeText={(text) => {
+          setToken(text);
+          if (errors.token) {
+            const newErrors = { ...errors };
+            delete newErrors.token;
+            setErrors(newErrors);
+          }
+        }}
+        placeholder="Paste your JWT"
+        autoCapitalize="none"
+        autoCorrect={false}
+        secureTextEntry
+        error={errors.token}
+      />
+
+      <Button
+        title="Sign In"
+        onPress={handleSignIn}
+        loading={loading}
+        disabled={loading}
+        size="large"
+        style={styles.button}
+      />
+
+      <Button
+        title="Manage Server Profiles"
+        onPress={() => navigation.navigate('ServerSettings')}
+        variant="ghost"
+        style={styles.button}
+      />
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: spacing.lg,
+  },
+  accountCard: {
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  accountLabel: {
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+  },
+  accountName: {
+    fontSize: typography.h4,
+    fontWeight: typography.semibold,
+    color: colors.text,
+  },
+  accountServer: {
+    fontSize: typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  signOutButton: {
+    alignSelf: 'flex-start',
+  },
+  title: {
+    fontSize: typography.h3,
+    fontWeight: typography.bold,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  subtitle: {
+    fontSize: typography.body,
+    color: colors.textSecondary,
+    marginBottom: spacing.lg,
+  },
+  button: {
+    marginTop: spacing.md,
+  },
+});
+
+export default SignInScreen;
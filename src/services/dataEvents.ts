@@ -0,0 +1,38 @@
+/**
+ * Notifications about data changed through the API
+ * The API layer emits these after every successful mutation so anything holding
+ * copies of forms, fields or records (e.g. the data store) can refresh them
+ */
+
+export type EntityType = 'form' | 'field' | 'record';
+
+export interface DataChange {
+  entity: EntityType;
+  action: 'create' | 'update' | 'delete';
+  /** Ids of the changed items */
+  ids: number[];
+}
+
+type DataChangeListener = (change: DataChange) => void;
+
+class DataEvents {
+  private listeners = new Set<DataChangeListener>();
+
+  emit(change: DataChange): void {
+    this.listeners.forEach(listener => listener(change));
+  }
+
+  /**
+   * Subscribe to data changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: DataChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+// Export singleton instance
+export const dataEvents = new DataEvents();
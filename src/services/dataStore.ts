@@ -0,0 +1,541 @@
+import { Form, Field, Record } from '../types';
+import { formAPI, fieldAPI, recordAPI, RecordPageOptions } from './api';
+import { dataEvents, DataChange, EntityType } from './dataEvents';
+import { session } from './session';
+import { cache, CACHE_KEYS } from '../utils/cache';
+import { logger } from '../utils/logger';
+import { getErrorMessage } from '../utils/errors';
+import { CACHE_CONFIG, PAGINATION_CONFIG } from '../constants/appConstants';
+
+type Entity = Form | Field | Record;
+
+/**
+ * Items of a query loaded a page at a time
+ */
+export interface StorePage<T> {
+  items: T[];
+  /** Total matching items, or null if the server did not report it */
+  total: number | null;
+  hasMore: boolean;
+}
+
+/**
+ * A read the store can run and keep up to date
+ * Either fetches every item at once, or a page at a time with more loaded through loadMore
+ */
+export type StoreQuery<T extends Entity> = QueryOptions<T> &
+  ({ fetch: () => Promise<T[]> } | { fetchPage: (offset: number, limit: number) => Promise<StorePage<T>> });
+
+interface QueryOptions<T extends Entity> {
+  /** Identifies the query; screens using the same key share its data and requests */
+  key: string;
+  /** Type of the returned items */
+  entity: EntityType;
+  /** Other types whose changes also make the result outdated */
+  dependsOn?: EntityType[];
+  /** Cache key whose background revalidation delivers fresh results */
+  cacheKey?: string;
+  /** Whether an item still being created belongs in the results; without it pending items are left out */
+  includes?: (item: T) => boolean;
+  /** Combine a fetched item with the copy already held, e.g. when the query only fetches some of its values */
+  merge?: (held: T, fetched: T) => T;
+}
+
+export interface PageSnapshot {
+  /** Total matching items, less the ones hidden while their delete can be undone */
+  total: number | null;
+  hasMore: boolean;
+  loadingMore: boolean;
+}
+
+export interface QuerySnapshot<T> {
+  /** Undefined until the first load succeeds */
+  data: T[] | undefined;
+  /** Loading without any data to show yet */
+  loading: boolean;
+  /** Reloading while the previous data is shown */
+  refreshing: boolean;
+  error: string | null;
+  /** Paging state of queries loaded a page at a time */
+  page?: PageSnapshot;
+}
+
+interface QueryState {
+  query: StoreQuery<Entity>;
+  ids: number[] | undefined;
+  error: string | null;
+  request: Promise<void> | null;
+  /** Changed since the running request started, or since the last load */
+  stale: boolean;
+  updatedAt: number;
+  /** Paged queries only */
+  page: { total: number | null; hasMore: boolean } | null;
+  loadingMore: Promise<void> | null;
+  listeners: Set<() => void>;
+  snapshot: QuerySnapshot<Entity>;
+  unsubscribeCache?: () => void;
+}
+
+const IDLE: QuerySnapshot<never> = { data: undefined, loading: true, refreshing: false, error: null };
+
+/**
+ * Items still being created have a temporary negative id
+ */
+export const isPending = (item: { id: number }): boolean => item.id < 0;
+
+/**
+ * Shared store for forms, fields and records
+ * Items are kept once by id and each query holds the ids it returned, so an item changed by one
+ * query shows up in every other. Queries are refetched when the API reports a mutation that
+ * affects them, and screens watching the same query share a single request
+ */
+class DataStore {
+  private entities: { [type in EntityType]: Map<number, Entity> } = {
+    form: new Map(),
+    field: new Map(),
+    record: new Map(),
+  };
+  /** Items waiting to be deleted, while the delete can still be undone */
+  private hidden: { [type in EntityType]: Set<number> } = {
+    form: new Set(),
+    field: new Set(),
+    record: new Set(),
+  };
+  /** Items waiting to be created, by temporary id */
+  private pending: { [type in EntityType]: Map<number, Entity> } = {
+    form: new Map(),
+    field: new Map(),
+    record: new Map(),
+  };
+  private nextPendingId = -1;
+  /** Pending items of each type, newest first; rebuilt on change so readers can compare by reference */
+  private pendingLists: { [type in EntityType]: Entity[] } = { form: [], field: [], record: [] };
+  private pendingListeners = new Set<() => void>();
+  private queries = new Map<string, QueryState>();
+  private identity: string | null = null;
+
+  constructor() {
+    dataEvents.subscribe(change => this.handleChange(change));
+
+    // Data belongs to one server and account
+    session.subscribe(credentials => {
+      const identity = credentials ? `${credentials.baseUrl}|${credentials.username}` : null;
+      if (identity !== this.identity) {
+        this.identity = identity;
+        this.reset();
+      }
+    });
+  }
+
+  /**
+   * Watch a query, loading it if it has no data yet or its data is outdated
+   * @returns Unsubscribe function
+   */
+  watch<T extends Entity>(query: StoreQuery<T>, listener: () => void): () => void {
+    let state = this.queries.get(query.key);
+    if (!state) {
+      state = {
+        query: query as unknown as StoreQuery<Entity>,
+        ids: undefined,
+        error: null,
+        request: null,
+        stale: false,
+        updatedAt: 0,
+        page: null,
+        loadingMore: null,
+        listeners: new Set(),
+        snapshot: IDLE,
+      };
+      this.queries.set(query.key, state);
+    }
+
+    const watched = state;
+    watched.listeners.add(listener);
+    if (query.cacheKey && !watched.unsubscribeCache) {
+      watched.unsubscribeCache = cache.subscribe<Entity[]>(query.cacheKey, items => this.receive(watched, items));
+    }
+    if (watched.ids === undefined || watched.stale || Date.now() - watched.updatedAt > CACHE_CONFIG.EXPIRY_TIME) {
+      this.load(watched);
+    }
+
+    return () => {
+      watched.listeners.delete(listener);
+      if (watched.listeners.size === 0) {
+        watched.unsubscribeCache?.();
+        watched.unsubscribeCache = undefined;
+      }
+    };
+  }
+
+  getSnapshot<T extends Entity>(key: string): QuerySnapshot<T> {
+    return (this.queries.get(key)?.snapshot ?? IDLE) as QuerySnapshot<T>;
+  }
+
+  /**
+   * Reload a watched query
+   */
+  refresh(key: string): Promise<void> {
+    const state = this.queries.get(key);
+    return state ? this.load(state) : Promise.resolve();
+  }
+
+  /**
+   * Load the next page of a watched paged query
+   * A failed page is logged and stops further paging until the query is reloaded
+   */
+  loadMore(key: string): Promise<void> {
+    const state = this.queries.get(key);
+    if (!state || !('fetchPage' in state.query) || !state.ids || !state.page?.hasMore) return Promise.resolve();
+    if (state.request || state.loadingMore) return state.loadingMore ?? Promise.resolve();
+
+    const { query } = state;
+    const loadingMore = query
+      .fetchPage(state.ids.length, PAGINATION_CONFIG.ITEMS_PER_PAGE)
+      .then(page => {
+        // A reload that started meanwhile replaces these items anyway
+        if (state.request) return;
+        this.keep(query, page.items);
+        const seen = new Set(state.ids);
+        state.ids = [...(state.ids ?? []), ...page.items.map(item => item.id).filter(id => !seen.has(id))];
+        state.page = { total: page.total, hasMore: page.hasMore };
+      })
+      .catch(error => {
+        logger.error(`Load more ${query.key} error:`, error);
+        if (state.page) state.page = { ...state.page, hasMore: false };
+      })
+      .finally(() => {
+        state.loadingMore = null;
+        this.publishQueries(query.entity);
+      });
+
+    state.loadingMore = loadingMore;
+    this.publish(state);
+    return loadingMore;
+  }
+
+  /**
+   * Hide items from every query until the returned function is called, e.g. while a delete can be undone
+   * Hiding a form also hides its fields and records
+   * @returns Function that shows the items again
+   */
+  hide(entity: EntityType, ids: number[]): () => void {
+    ids.forEach(id => this.hidden[entity].add(id));
+    this.publishAll();
+
+    return () => {
+      ids.forEach(id => this.hidden[entity].delete(id));
+      this.publishAll();
+    };
+  }
+
+  /**
+   * Whether an item is hidden, directly or through its form
+   */
+  isHidden(entity: EntityType, item: Entity): boolean {
+    if (this.hidden[entity].has(item.id)) return true;
+    return entity !== 'form' && this.hidden.form.has((item as Field | Record).form_id);
+  }
+
+  /**
+   * Items still being created, newest first
+   * For screens that load their own pages of items rather than reading a query
+   */
+  getPending<T extends Entity>(entity: EntityType): T[] {
+    return this.pendingLists[entity] as T[];
+  }
+
+  /**
+   * Watch items start and stop waiting to be created
+   * @returns Unsubscribe function
+   */
+  watchPending(listener: () => void): () => void {
+    this.pendingListeners.add(listener);
+    return () => {
+      this.pendingListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Show an item that is still being created in the queries it belongs to
+   * @returns Function to call when the create finished: with the created item it takes the
+   * pending item's place until the queries are refetched, without it the pending item is dropped
+   */
+  addPending<T extends Entity>(entity: EntityType, item: Omit<T, 'id' | 'username'>): (created?: T) => void {
+    const id = this.nextPendingId--;
+    this.pending[entity].set(id, { ...item, id, username: '' } as T);
+    this.publishPending(entity);
+    this.publishAll();
+
+    return created => {
+      this.pending[entity].delete(id);
+      this.publishPending(entity);
+      if (created) {
+        this.entities[entity].set(created.id, created);
+        this.queries.forEach(state => {
+          const { query } = state;
+          if (query.entity === entity && state.ids && !state.ids.includes(created.id) && query.includes?.(created)) {
+            state.ids = [...state.ids, created.id];
+          }
+        });
+      }
+      this.publishAll();
+    };
+  }
+
+  /**
+   * Apply changes to items before the server has confirmed them
+   * Queries keep their order; the next refetch replaces the items with the server's
+   */
+  updateLocally<T extends Entity>(entity: EntityType, items: T[]): void {
+    items.forEach(item => this.entities[entity].set(item.id, item));
+    this.publishAll();
+  }
+
+  /**
+   * Drop items deleted without going through the API, e.g. deletes queued while offline
+   */
+  removeLocally(entity: EntityType, ids: number[]): void {
+    const removed = new Set(ids);
+    ids.forEach(id => {
+      this.entities[entity].delete(id);
+      this.hidden[entity].delete(id);
+    });
+
+    // A form's fields and records go with it
+    if (entity === 'form') {
+      (['field', 'record'] as const).forEach(type => {
+        this.entities[type].forEach((item, id) => {
+          if (removed.has((item as Field | Record).form_id)) this.entities[type].delete(id);
+        });
+      });
+    }
+
+    this.queries.forEach(state => {
+      if (!state.ids) return;
+      const items = this.entities[state.query.entity];
+      const remaining = state.ids.filter(id => items.has(id));
+      if (remaining.length !== state.ids.length) {
+        if (state.page && state.page.total !== null) {
+          state.page = { ...state.page, total: Math.max(state.page.total - (state.ids.length - remaining.length), 0) };
+        }
+        state.ids = remaining;
+        this.publish(state);
+      }
+    });
+  }
+
+  /**
+   * Start loading a query unless it is already loading
+   */
+  private load(state: QueryState): Promise<void> {
+    if (state.request) return state.request;
+
+    state.stale = false;
+    const { query } = state;
+    const request = ('fetchPage' in query ? this.fetchPages(query, state.ids?.length ?? 0) : query.fetch())
+      .then(result => this.receive(state, result))
+      .catch(error => {
+        state.error = getErrorMessage(error);
+        logger.error(`Load ${state.query.key} error:`, error);
+      })
+      .finally(() => {
+        state.request = null;
+        // Something changed while the request was running
+        if (state.stale && state.listeners.size > 0) {
+          this.load(state);
+        } else {
+          this.publish(state);
+        }
+      });
+
+    state.request = request;
+    this.publish(state);
+    return request;
+  }
+
+  /**
+   * Load the first pages of a paged query, as many as needed to cover the items already shown
+   * so a reload after a change does not cut the list short
+   */
+  private async fetchPages(
+    query: Extract<StoreQuery<Entity>, { fetchPage: unknown }>,
+    shown: number
+  ): Promise<StorePage<Entity>> {
+    const items: Entity[] = [];
+    for (;;) {
+      const limit = Math.min(Math.max(shown - items.length, PAGINATION_CONFIG.ITEMS_PER_PAGE), PAGINATION_CONFIG.MAX_ITEMS);
+      const page = await query.fetchPage(items.length, limit);
+      items.push(...page.items);
+      if (!page.hasMore || items.length >= shown) {
+        return { ...page, items };
+      }
+    }
+  }
+
+  private receive(state: QueryState, result: Entity[] | StorePage<Entity>): void {
+    const items = Array.isArray(result) ? result : result.items;
+    this.keep(state.query, items);
+    state.ids = items.map(item => item.id);
+    state.page = Array.isArray(result) ? null : { total: result.total, hasMore: result.hasMore };
+    state.error = null;
+    state.updatedAt = Date.now();
+
+    // Other queries may hold some of the same items
+    this.publishQueries(state.query.entity);
+  }
+
+  /**
+   * Store fetched items, combined with the copies already held where the query asks for it
+   */
+  private keep(query: StoreQuery<Entity>, items: Entity[]): void {
+    const held = this.entities[query.entity];
+    items.forEach(item => {
+      const existing = held.get(item.id);
+      held.set(item.id, existing && query.merge ? query.merge(existing, item) : item);
+    });
+  }
+
+  /**
+   * Refetch queries affected by a mutation; unwatched ones are dropped and reload when next watched
+   */
+  private handleChange(change: DataChange): void {
+    if (change.action === 'delete') this.removeLocally(change.entity, change.ids);
+
+    const affected: EntityType[] = change.entity === 'form' ? ['form', 'field', 'record'] : [change.entity];
+    this.queries.forEach((state, key) => {
+      const types = [state.query.entity, ...(state.query.dependsOn ?? [])];
+      if (!types.some(type => affected.includes(type))) return;
+
+      if (state.listeners.size === 0) {
+        this.queries.delete(key);
+        return;
+      }
+      state.stale = true;
+      this.load(state);
+    });
+  }
+
+  /**
+   * Forget everything after switching server or account
+   */
+  private reset(): void {
+    Object.values(this.entities).forEach(items => items.clear());
+    Object.values(this.hidden).forEach(ids => ids.clear());
+    Object.values(this.pending).forEach(items => items.clear());
+    (Object.keys(this.pending) as EntityType[]).forEach(type => this.publishPending(type));
+    this.queries.forEach((state, key) => {
+      if (state.listeners.size === 0) {
+        this.queries.delete(key);
+        return;
+      }
+      state.ids = undefined;
+      state.page = null;
+      state.error = null;
+      state.stale = true;
+      this.load(state);
+    });
+  }
+
+  private publishPending(entity: EntityType): void {
+    this.pendingLists[entity] = Array.from(this.pending[entity].values()).reverse();
+    this.pendingListeners.forEach(listener => listener());
+  }
+
+  private publishAll(): void {
+    this.queries.forEach(state => this.publish(state));
+  }
+
+  private publishQueries(entity: EntityType): void {
+    this.queries.forEach(state => {
+      if (state.query.entity === entity) this.publish(state);
+    });
+  }
+
+  /**
+   * Rebuild a query's snapshot and notify its listeners
+   */
+  private publish(state: QueryState): void {
+    const { entity, includes } = state.query;
+    const items = this.entities[entity];
+    const pending = includes ? Array.from(this.pending[entity].values()).filter(includes) : [];
+    const held = state.ids?.map(id => items.get(id)).filter((item): item is Entity => item !== undefined);
+    const data = held?.concat(pending).filter(item => !this.isHidden(entity, item));
+    state.snapshot = {
+      data,
+      loading: state.request !== null && data === undefined,
+      refreshing: state.request !== null && data !== undefined,
+      error: state.error,
+    };
+    if (state.page) {
+      const { total, hasMore } = state.page;
+      const hidden = held ? held.filter(item => this.isHidden(entity, item)).length : 0;
+      state.snapshot.page = {
+        total: total !== null ? Math.max(total - hidden, 0) : null,
+        hasMore,
+        loadingMore: state.loadingMore !== null,
+      };
+    }
+    state.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const dataStore = new DataStore();
+
+export const formsQuery = (): StoreQuery<Form> => ({
+  key: 'forms',
+  entity: 'form',
+  cacheKey: CACHE_KEYS.FORMS,
+  includes: () => true,
+  fetch: formAPI.getAll,
+});
+
+export const fieldsQuery = (formId: number): StoreQuery<Field> => ({
+  key: `fields:${formId}`,
+  entity: 'field',
+  cacheKey: CACHE_KEYS.FIELDS(formId),
+  includes: field => field.form_id === formId,
+  fetch: () => fieldAPI.getByFormId(formId),
+});
+
+/**
+ * Records of every form, fetched together
+ */
+export const allRecordsQuery = (): StoreQuery<Record> => ({
+  key: 'records:all',
+  entity: 'record',
+  dependsOn: ['form'],
+  includes: () => true,
+  fetch: async () => {
+    const forms = await formAPI.getAll();
+    return recordAPI.getByFormIds(forms.map(form => form.id));
+  },
+});
+
+export type RecordListOptions = Pick<RecordPageOptions, 'filters' | 'sort' | 'valueKeys'>;
+
+/**
+ * Records of one or more forms as record lists show them, a page at a time
+ * Pages fetched with valueKeys leave out the other values, so copies already held keep theirs
+ */
+export const recordsQuery = (formIds: number | number[], options: RecordListOptions = {}): StoreQuery<Record> => {
+  const { valueKeys } = options;
+  return {
+    key: `records:${[formIds].flat().join(',')}:${JSON.stringify(options)}`,
+    entity: 'record',
+    merge: valueKeys
+      ? (held, fetched) => ({
+          ...held,
+          ...fetched,
+          values: {
+            ...Object.fromEntries(Object.entries(held.values).filter(([key]) => !valueKeys.includes(key))),
+            ...fetched.values,
+          },
+        })
+      : undefined,
+    fetchPage: async (offset, limit) => {
+      const page = await recordAPI.getPage(formIds, { ...options, offset, limit });
+      return { items: page.records, total: page.total, hasMore: page.hasMore };
+    },
+  };
+};
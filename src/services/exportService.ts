@@ -0,0 +1,132 @@
+import { Directory, File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import JSZip from 'jszip';
+import { Field, Form, Record, RecordFilters, RecordSort } from '../types';
+import { recordAPI } from './api';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errors';
+import { PAGINATION_CONFIG } from '../constants/appConstants';
+import { EXPORT_FORMATS, ExportFormat, extractImages, formatRecords, toFileName } from '../utils/exporters';
+
+/**
+ * How images are included in an export
+ * - none: left out (shown as "[image]")
+ * - zip: data file and images bundled into one zip that is shared
+ * - files: data file and images written as separate files to a folder the user picks
+ */
+export type ImageExportMode = 'none' | 'zip' | 'files';
+
+export interface ExportOptions {
+  form: Form;
+  fields: Field[];
+  format: ExportFormat;
+  images: ImageExportMode;
+  /** Export only the records matching these filters */
+  filters?: RecordFilters;
+  /** Order of the exported records; defaults to oldest first */
+  sort?: RecordSort;
+  /** Called while records are being downloaded */
+  onProgress?: (loaded: number, total: number | null) => void;
+}
+
+export interface ExportResult {
+  recordCount: number;
+  imageCount: number;
+  /** Where the export was written */
+  uri: string;
+  shared: boolean;
+}
+
+/**
+ * Download every record of a form (optionally filtered), page by page
+ */
+export const fetchAllRecords = async (
+  formId: number,
+  filters?: RecordFilters,
+  onProgress?: (loaded: number, total: number | null) => void,
+  sort?: RecordSort
+): Promise<Record[]> => {
+  const records: Record[] = [];
+  let offset = 0;
+
+  for (;;) {
+    const page = await recordAPI.getPage(formId, {
+      offset,
+      limit: PAGINATION_CONFIG.MAX_ITEMS,
+      filters,
+      sort,
+      cache: false,
+    });
+    records.push(...page.records);
+    onProgress?.(records.length, page.total);
+    if (!page.hasMore) break;
+    offset += page.limit;
+  }
+
+  return records;
+};
+
+/**
+ * Write a form's records to a file and hand it to the OS share sheet
+ */
+export const exportRecords = async (options: ExportOptions): Promise<ExportResult> => {
+  const { form, fields, format, images } = options;
+  const records = await fetchAllRecords(form.id, options.filters, options.onProgress, options.sort);
+
+  const withImages = images !== 'none';
+  const content = formatRecords(format, form, records, fields, withImages);
+  const imageFiles = withImages ? extractImages(records, fields) : [];
+
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  const baseName = `${toFileName(form.name)}_${stamp}`;
+  const dataFileName = `${baseName}.${extension}`;
+
+  if (images === 'files') {
+    // Separate files can't go through the share sheet together, so let the user pick a folder
+    const target = await Directory.pickDirectoryAsync();
+    const folder = target.createDirectory(baseName);
+    folder.createFile(dataFileName, mimeType).write(content);
+
+    if (imageFiles.length > 0) {
+      const imageFolder = folder.createDirectory('images');
+      imageFiles.forEach(image => {
+        const name = image.path.replace(/^images\//, '');
+        imageFolder.createFile(name, image.mimeType).write(image.base64, { encoding: 'base64' });
+      });
+    }
+
+    logger.log(`Exported ${records.length} records and ${imageFiles.length} images to ${folder.uri}`);
+    return { recordCount: records.length, imageCount: imageFiles.length, uri: folder.uri, shared: false };
+  }
+
+  const exportDir = new Directory(Paths.cache, 'exports');
+  exportDir.create({ idempotent: true, intermediates: true });
+
+  let file: File;
+  let shareType = mimeType;
+
+  if (images === 'zip') {
+    const zip = new JSZip();
+    zip.file(dataFileName, content);
+    imageFiles.forEach(image => zip.file(image.path, image.base64, { base64: true }));
+
+    file = new File(exportDir, `${baseName}.zip`);
+    file.create({ overwrite: true });
+    file.write(await zip.generateAsync({ type: 'base64' }), { encoding: 'base64' });
+    shareType = 'application/zip';
+  } else {
+    file = new File(exportDir, dataFileName);
+    file.create({ overwrite: true });
+    file.write(content);
+  }
+
+  logger.log(`Exported ${records.length} records to ${file.uri}`);
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new AppError('Sharing is not available on this device.', 'SHARING_UNAVAILABLE');
+  }
+
+  await Sharing.shareAsync(file.uri, { mimeType: shareType, dialogTitle: `Export ${form.name}` });
+  return { recordCount: records.length, imageCount: imageFiles.length, uri: file.uri, shared: true };
+};
@@ -0,0 +1,50 @@
+import { Form, LocationValue, Record, RecordValues } from '../types';
+import { isLocationValue } from '../utils/geo';
+
+/**
+ * A record along with the name of its form
+ */
+export interface FormRecord extends Record {
+  formName: string;
+}
+
+/**
+ * One location value of a record
+ */
+export interface RecordLocation {
+  recordId: number;
+  formId: number;
+  formName: string;
+  fieldName: string;
+  location: LocationValue;
+  /** All values of the record */
+  values: RecordValues;
+}
+
+/**
+ * Add form names to records
+ */
+export const withFormNames = (records: Record[], forms: Form[]): FormRecord[] => {
+  const names = new Map(forms.map(form => [form.id, form.name]));
+  return records.map(record => ({
+    ...record,
+    formName: names.get(record.form_id) || `Form #${record.form_id}`,
+  }));
+};
+
+/**
+ * Every location value in a set of records
+ */
+export const getRecordLocations = (records: FormRecord[]): RecordLocation[] =>
+  records.flatMap(record =>
+    Object.entries(record.values)
+      .filter((entry): entry is [string, LocationValue] => isLocationValue(entry[1]))
+      .map(([fieldName, location]) => ({
+        recordId: record.id,
+        formId: record.form_id,
+        formName: record.formName,
+        fieldName,
+        location,
+        values: record.values,
+      }))
+  );
@@ -0,0 +1,170 @@
+import { logger } from '../utils/logger';
+import { NetworkError, parseFetchError } from '../utils/errors';
+import { API_CONFIG } from '../constants/appConstants';
+
+export type HttpMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RequestConfig {
+  method: HttpMethod;
+  /** Path relative to the base URL, or an absolute URL */
+  url: string;
+  headers: { [name: string]: string };
+  body?: unknown;
+  /** Timeout in milliseconds (defaults to API_CONFIG.TIMEOUT) */
+  timeout: number;
+  /** Retries after the first attempt; only used for idempotent methods */
+  retries: number;
+}
+
+export type RequestOptions = Partial<Omit<RequestConfig, 'method' | 'url'>>;
+
+export type RequestInterceptor = (config: RequestConfig) => RequestConfig | Promise<RequestConfig>;
+export type ResponseInterceptor = (response: Response, config: RequestConfig) => Response | Promise<Response>;
+
+/**
+ * Methods that can safely be sent again without changing the result
+ */
+const IDEMPOTENT_METHODS: HttpMethod[] = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+/**
+ * Statuses worth retrying: timeouts, rate limiting and server errors
+ */
+const isRetryableStatus = (status?: number): boolean =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Single request pipeline for the API layer
+ * Applies interceptors, a timeout per attempt, exponential retry for idempotent calls,
+ * and maps every failure to an AppError through parseFetchError
+ */
+class HttpClient {
+  private requestInterceptors: RequestInterceptor[] = [];
+  private responseInterceptors: ResponseInterceptor[] = [];
+
+  /**
+   * Run before every request, in registration order (e.g. to add the base URL and auth headers)
+   * @returns Function that removes the interceptor
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    this.requestInterceptors.push(interceptor);
+    return () => {
+      this.requestInterceptors = this.requestInterceptors.filter(i => i !== interceptor);
+    };
+  }
+
+  /**
+   * Run on every response before status handling (e.g. to react to 401)
+   * @returns Function that removes the interceptor
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    this.responseInterceptors.push(interceptor);
+    return () => {
+      this.responseInterceptors = this.responseInterceptors.filter(i => i !== interceptor);
+    };
+  }
+
+  get<T>(url: string, options?: RequestOptions): Promise<T> {
+    return this.json<T>('GET', url, options);
+  }
+
+  post<T>(url: string, body: unknown, options?: RequestOptions): Promise<T> {
+    return this.json<T>('POST', url, { ...options, body });
+  }
+
+  patch<T>(url: string, body: unknown, options?: RequestOptions): Promise<T> {
+    return this.json<T>('PATCH', url, { ...options, body });
+  }
+
+  async delete(url: string, options?: RequestOptions): Promise<void> {
+    await this.request('DELETE', url, options);
+  }
+
+  /**
+   * Send a request and parse the JSON body (empty bodies resolve to null)
+   */
+  async json<T>(method: HttpMethod, url: string, options?: RequestOptions): Promise<T> {
+    const response = await this.request(method, url, options);
+    const text = await response.text();
+    return (text ? JSON.parse(text) : null) as T;
+  }
+
+  /**
+   * Send a request through the pipeline
+   * Resolves with a successful response, otherwise rejects with an AppError
+   */
+  async request(method: HttpMethod, url: string, options: RequestOptions = {}): Promise<Response> {
+    let config: RequestConfig = {
+      method,
+      url,
+      headers: { 'Content-Type': 'application/json', ...options.headers },
+      body: options.body,
+      timeout: options.timeout ?? API_CONFIG.TIMEOUT,
+      retries: IDEMPOTENT_METHODS.includes(method) ? options.retries ?? API_CONFIG.MAX_RETRIES : 0,
+    };
+
+    for (const interceptor of this.requestInterceptors) {
+      config = await interceptor(config);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send(config);
+      } catch (error) {
+        const appError = parseFetchError(error);
+        const canRetry =
+          attempt < config.retries &&
+          (appError instanceof NetworkError || isRetryableStatus(appError.statusCode));
+
+        if (!canRetry) {
+          logger.error(`${config.method} ${config.url} failed:`, appError.message);
+          throw appError;
+        }
+
+        const wait = API_CONFIG.RETRY_BASE_DELAY * Math.pow(2, attempt);
+        logger.log(`${config.method} ${config.url} retrying in ${wait}ms (${appError.message})`);
+        await delay(wait);
+      }
+    }
+  }
+
+  /**
+   * One attempt: fetch with an abort timeout, run response interceptors, map error statuses
+   */
+  private async send(config: RequestConfig): Promise<Response> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeout);
+
+    let response: Response;
+    try {
+      logger.log(`${config.method} ${config.url}`);
+      response = await fetch(config.url, {
+        method: config.method,
+        headers: config.headers,
+        body: config.body === undefined ? undefined : JSON.stringify(config.body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      throw parseFetchError(error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    for (const interceptor of this.responseInterceptors) {
+      response = await interceptor(response, config);
+    }
+
+    logger.log(`${config.method} ${config.url} -> ${response.status}`);
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw parseFetchError(null, response, body);
+    }
+
+    return response;
+  }
+}
+
+// Export singleton instance
+export const http = new HttpClient();
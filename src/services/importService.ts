@@ -0,0 +1,62 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { RecordValues } from '../types';
+import { recordAPI } from './api';
+import { logger } from '../utils/logger';
+import { ValidationError } from '../utils/errors';
+import { parseCSV } from '../utils/importers';
+import { ERROR_MESSAGES, IMPORT_CONFIG } from '../constants/appConstants';
+
+export interface CSVFile {
+  name: string;
+  headers: string[];
+  /** Data rows (without the header row) */
+  rows: string[][];
+}
+
+/**
+ * Let the user pick a CSV file and parse it
+ *
+ * @returns The parsed file, or null if the picker was cancelled
+ */
+export const pickCSVFile = async (): Promise<CSVFile | null> => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/vnd.ms-excel'],
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || !result.assets[0]) return null;
+
+  const asset = result.assets[0];
+  const table = parseCSV(await new File(asset.uri).text());
+  if (table.length === 0 || table[0].every(header => !header.trim())) {
+    throw new ValidationError(ERROR_MESSAGES.INVALID_CSV);
+  }
+
+  const [headers, ...rows] = table;
+  logger.log(`Parsed ${asset.name}: ${headers.length} columns, ${rows.length} rows`);
+  return { name: asset.name, headers: headers.map(header => header.trim()), rows };
+};
+
+/**
+ * Insert records in batches
+ * Batches already inserted stay in place if a later one fails; the error carries on to the caller
+ *
+ * @returns Number of records created
+ */
+export const importRecords = async (
+  formId: number,
+  values: RecordValues[],
+  onProgress?: (imported: number, total: number) => void
+): Promise<number> => {
+  let imported = 0;
+
+  for (let start = 0; start < values.length; start += IMPORT_CONFIG.BATCH_SIZE) {
+    const batch = values.slice(start, start + IMPORT_CONFIG.BATCH_SIZE);
+    await recordAPI.createMany(formId, batch);
+    imported += batch.length;
+    onProgress?.(imported, values.length);
+  }
+
+  logger.log(`Imported ${imported} records into form ${formId}`);
+  return imported;
+};
@@ -0,0 +1,162 @@
+import { Form, Field, Record, OutboxItem, OutboxOperation } from '../types';
+import { dataStore } from './dataStore';
+import { outbox } from './outbox';
+import { dataEvents, EntityType } from './dataEvents';
+import { toast } from './toast';
+import { logger } from '../utils/logger';
+import { getErrorMessage, isNetworkError, isTimeoutError } from '../utils/errors';
+import { ERROR_MESSAGES, SUCCESS_MESSAGES, TOAST_CONFIG } from '../constants/appConstants';
+
+/**
+ * Optimistic mutations
+ * The change shows up straight away and is rolled back with a toast if the server rejects it.
+ * Changes made while offline are queued in the outbox as before
+ */
+
+interface DeleteOptions {
+  entity: EntityType;
+  id: number;
+  /** Toast shown while the delete can be undone, e.g. 'Record #12 deleted' */
+  message: string;
+  /** Toast shown when the server rejects the delete and nothing more specific is known */
+  failureMessage: string;
+  /** Delete on the server */
+  commit: () => Promise<void>;
+  /** Tidy up once the server has deleted the item; a failure here is logged and leaves the delete in place */
+  afterCommit?: () => Promise<void>;
+  /** The delete as the outbox replays it, with its description in the sync queue */
+  operation: OutboxOperation;
+  description: string;
+  /** Update screen state the shared store does not hold */
+  remove?: () => void;
+  restore?: () => void;
+}
+
+interface CreateOptions<T extends Form | Field | Record> {
+  entity: EntityType;
+  /** Shown as a pending item until the server returns the created one */
+  item: Omit<T, 'id' | 'username'>;
+  failureMessage: string;
+  /** Create on the server */
+  commit: () => Promise<T>;
+  /** Queue the create in the outbox */
+  queue: () => Promise<void>;
+}
+
+/**
+ * Hide an item at once and delete it on the server once the undo window has passed
+ * The item comes back if the delete is undone or the server rejects it.
+ * The delete is held in the outbox meanwhile, so it still syncs if the app is closed before then
+ */
+export const deleteWithUndo = async (options: DeleteOptions): Promise<void> => {
+  const { entity, id, message, failureMessage, commit, afterCommit, operation, description, remove, restore } = options;
+  const show = dataStore.hide(entity, [id]);
+  remove?.();
+
+  const rollback = () => {
+    show();
+    restore?.();
+  };
+
+  const fail = (err: unknown) => {
+    rollback();
+    toast.error(getErrorMessage(err) || failureMessage);
+    logger.error(`Delete ${entity} error:`, err);
+  };
+
+  let held: OutboxItem;
+  try {
+    held = await outbox.hold(operation, description);
+  } catch (err) {
+    fail(err);
+    return;
+  }
+
+  const timer = setTimeout(async () => {
+    try {
+      // Already replayed by the outbox or discarded
+      if (!(await outbox.take(held.id))) return;
+    } catch (err) {
+      fail(err);
+      return;
+    }
+
+    try {
+      await commit();
+    } catch (err) {
+      if (!isNetworkError(err)) {
+        fail(err);
+        return;
+      }
+      try {
+        await outbox.enqueue(operation, description);
+        dataStore.removeLocally(entity, [id]);
+        toast.show(SUCCESS_MESSAGES.QUEUED_OFFLINE);
+      } catch (queueErr) {
+        fail(queueErr);
+      }
+      return;
+    }
+
+    try {
+      await afterCommit?.();
+    } catch (err) {
+      logger.error(`After deleting ${entity} error:`, err);
+    }
+  }, TOAST_CONFIG.UNDO_MS);
+
+  toast.show(message, {
+    duration: TOAST_CONFIG.UNDO_MS,
+    action: {
+      label: 'Undo',
+      onPress: () => {
+        clearTimeout(timer);
+        outbox.discard(held.id);
+        rollback();
+      },
+    },
+  });
+};
+
+/**
+ * Show an item as pending while it is created on the server
+ * If the server rejects it the pending item is removed and the toast offers to try again.
+ * A create that timed out is neither queued nor retried, as the server may have saved it
+ */
+export const createOptimistically = async <T extends Form | Field | Record>(
+  options: CreateOptions<T>
+): Promise<void> => {
+  const { entity, item, failureMessage, commit, queue } = options;
+  const settle = dataStore.addPending<T>(entity, item);
+
+  const fail = (err: unknown) => {
+    toast.error(getErrorMessage(err) || failureMessage, {
+      label: 'Retry',
+      onPress: () => createOptimistically(options),
+    });
+    logger.error(`Create ${entity} error:`, err);
+  };
+
+  try {
+    settle(await commit());
+  } catch (err) {
+    settle();
+    if (isTimeoutError(err)) {
+      // The server may have saved it: reload lists so it shows if it did, rather than queue a second copy
+      dataEvents.emit({ entity, action: 'create', ids: [] });
+      toast.error(ERROR_MESSAGES.UNCONFIRMED_CREATE);
+      logger.error(`Create ${entity} unconfirmed:`, err);
+      return;
+    }
+    if (!isNetworkError(err)) {
+      fail(err);
+      return;
+    }
+    try {
+      await queue();
+      toast.show(SUCCESS_MESSAGES.QUEUED_OFFLINE);
+    } catch (queueErr) {
+      fail(queueErr);
+    }
+  }
+};
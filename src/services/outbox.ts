@@ -0,0 +1,493 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { AppState, AppStateStatus } from 'react-native';
+import { OutboxItem, OutboxOperation } from '../types';
+import { EntityType } from './dataEvents';
+import { formAPI, fieldAPI, recordAPI } from './api';
+import { session } from './session';
+import { logger } from '../utils/logger';
+import {
+  ValidationError,
+  getErrorMessage,
+  isAppError,
+  isAuthError,
+  isNetworkError,
+  isTimeoutError,
+} from '../utils/errors';
+import { ERROR_MESSAGES, OUTBOX_CONFIG } from '../constants/appConstants';
+
+type OutboxListener = (items: OutboxItem[]) => void;
+
+interface ItemRef {
+  entity: EntityType;
+  id: number;
+}
+
+/**
+ * The saved item an operation changes; creates have none, as their id is only known once they sync
+ */
+const targetOf = (operation: OutboxOperation): ItemRef | undefined => {
+  switch (operation.type) {
+    case 'form.create':
+    case 'field.create':
+    case 'record.create':
+    case 'record.renameKey':
+      return undefined;
+    default:
+      return { entity: operation.type.split('.')[0] as EntityType, id: operation.id };
+  }
+};
+
+/**
+ * Saved items an operation relies on: the item it changes and the form it adds to
+ */
+const referencesOf = (operation: OutboxOperation): ItemRef[] => {
+  const target = targetOf(operation);
+  const refs = target ? [target] : [];
+  switch (operation.type) {
+    case 'field.create':
+    case 'record.create':
+      return [...refs, { entity: 'form', id: operation.payload.form_id }];
+    case 'record.update':
+      return operation.payload.form_id !== undefined ? [...refs, { entity: 'form', id: operation.payload.form_id }] : refs;
+    case 'record.renameKey':
+      // Only once the field itself was renamed
+      return [
+        { entity: 'form', id: operation.formId },
+        { entity: 'field', id: operation.fieldId },
+      ];
+    default:
+      return refs;
+  }
+};
+
+/**
+ * Creates add a new row every time they run, so they are not safe to send twice
+ */
+const isCreate = (operation: OutboxOperation): boolean => operation.type.endsWith('.create');
+
+/**
+ * Whether an operation relies on the item an earlier one changes, so it cannot run once that failed
+ */
+const dependsOn = (operation: OutboxOperation, earlier: OutboxOperation): boolean => {
+  const target = targetOf(earlier);
+  return !!target && referencesOf(operation).some(ref => ref.entity === target.entity && ref.id === target.id);
+};
+
+/**
+ * Persistent queue for mutations made while offline
+ * Items are stored in AsyncStorage and replayed in the order they were queued
+ * once connectivity returns, with exponential backoff between attempts
+ */
+class OutboxManager {
+  private items: OutboxItem[] = [];
+  private loaded = false;
+  private loading: Promise<void> | null = null;
+  private flushing = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private offlineRetries = 0;
+  private listeners = new Set<OutboxListener>();
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private appStateSubscription: { remove: () => void } | null = null;
+  private unsubscribeSession: (() => void) | null = null;
+  /** Items this session will carry out itself; replayed only if the app closes before it does */
+  private held = new Set<string>();
+
+  /**
+   * Load the persisted queue and start listening for connectivity changes
+   * Safe to call more than once
+   */
+  async start(): Promise<void> {
+    await this.load();
+
+    if (!this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener((state: NetInfoState) => {
+        if (state.isConnected && state.isInternetReachable !== false) {
+          this.flush();
+        }
+      });
+    }
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', (status: AppStateStatus) => {
+        if (status === 'active') {
+          this.flush();
+        }
+      });
+    }
+
+    if (!this.unsubscribeSession) {
+      // Changes queued under a profile are replayed once it is active again
+      this.unsubscribeSession = session.subscribe(credentials => {
+        if (credentials) {
+          this.flush();
+        }
+      });
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Stop listening for connectivity changes and cancel any scheduled retry
+   */
+  stop(): void {
+    this.unsubscribeNetInfo?.();
+    this.unsubscribeNetInfo = null;
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.unsubscribeSession?.();
+    this.unsubscribeSession = null;
+    this.clearRetryTimer();
+  }
+
+  /**
+   * Add an operation to the end of the queue
+   * @param operation - Mutation to replay against the API
+   * @param description - Human-readable summary shown in the sync queue
+   */
+  async enqueue(operation: OutboxOperation, description: string): Promise<OutboxItem> {
+    return this.add(operation, description, false);
+  }
+
+  /**
+   * Store an operation the app will carry out itself shortly, e.g. a delete that can still be undone
+   * It is not replayed while the app is running, but survives the app being closed first
+   * Finish with take() to run it or discard() to drop it
+   */
+  async hold(operation: OutboxOperation, description: string): Promise<OutboxItem> {
+    return this.add(operation, description, true);
+  }
+
+  /**
+   * Remove a held item so the caller can run it now
+   * @returns False if the item is no longer held, e.g. it was discarded or already replayed
+   */
+  async take(id: string): Promise<boolean> {
+    await this.load();
+    if (!this.held.delete(id) || !this.items.some(item => item.id === id)) return false;
+
+    this.items = this.items.filter(item => item.id !== id);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Number of items still waiting to be synced
+   */
+  getPendingCount(): number {
+    return this.items.filter(item => item.status === 'pending' && !this.held.has(item.id)).length;
+  }
+
+  /**
+   * Subscribe to queue changes
+   * The listener is first called with every queued item (oldest first) once the queue has loaded
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => {
+      if (this.listeners.has(listener)) listener(this.items);
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Reset a failed or uncertain item so it is picked up by the next flush
+   */
+  async retry(id: string): Promise<void> {
+    await this.load();
+    this.items = this.items.map(item =>
+      item.id === id
+        ? { ...item, status: 'pending', attempts: 0, error: undefined, nextAttemptAt: undefined }
+        : item
+    );
+    await this.persist();
+    this.flush();
+  }
+
+  /**
+   * Remove an item from the queue without syncing it
+   */
+  async discard(id: string): Promise<void> {
+    await this.load();
+    this.held.delete(id);
+    this.items = this.items.filter(item => item.id !== id);
+    await this.persist();
+    // Items waiting for this one can go ahead
+    this.flush();
+  }
+
+  /**
+   * Remove all items that have already been synced
+   */
+  async clearSynced(): Promise<void> {
+    await this.load();
+    this.items = this.items.filter(item => item.status !== 'synced');
+    await this.persist();
+  }
+
+  /**
+   * Replay pending items in order
+   * Stops at the first connectivity or server error and schedules a retry with backoff,
+   * so later items never overtake earlier ones. Items relying on an item that failed for good
+   * wait until it is retried or discarded
+   */
+  async flush(): Promise<void> {
+    await this.load();
+    if (this.flushing) return;
+
+    this.flushing = true;
+    this.clearRetryTimer();
+
+    try {
+      for (const queued of this.items) {
+        if (queued.status !== 'pending' || this.held.has(queued.id)) continue;
+        if (queued.profileId && queued.profileId !== session.getCredentials()?.profileId) continue;
+
+        const earlier = this.items.slice(0, this.items.findIndex(item => item.id === queued.id));
+        const blocker = earlier.find(item => item.status === 'failed' && dependsOn(queued.operation, item.operation));
+        if (blocker) {
+          this.update(queued.id, { error: `Waiting for a failed change: ${blocker.description}` });
+          continue;
+        }
+
+        const attempts = queued.attempts + 1;
+
+        try {
+          await this.execute(queued.operation);
+          this.update(queued.id, {
+            status: 'synced',
+            attempts,
+            lastAttemptAt: Date.now(),
+            nextAttemptAt: undefined,
+            error: undefined,
+          });
+          this.offlineRetries = 0;
+          logger.log(`Outbox synced: ${queued.operation.type}`);
+        } catch (error) {
+          const message = getErrorMessage(error);
+
+          // Client errors will not succeed on retry, so give up on this item and move on to ones that do not rely on it
+          const isPermanent =
+            isAppError(error) &&
+            error.statusCode !== undefined &&
+            error.statusCode >= 400 &&
+            error.statusCode < 500 &&
+            error.statusCode !== 408 &&
+            error.statusCode !== 429;
+
+          // Rejected credentials: wait for the user to sign in again rather than failing the item
+          if (isAuthError(error)) {
+            this.update(queued.id, { lastAttemptAt: Date.now(), error: message });
+            logger.log('Outbox paused until the user signs in');
+            break;
+          }
+
+          // A create that timed out may have been saved; sending it again could save it twice
+          if (isTimeoutError(error) && isCreate(queued.operation)) {
+            this.update(queued.id, {
+              status: 'uncertain',
+              attempts,
+              lastAttemptAt: Date.now(),
+              nextAttemptAt: undefined,
+              error: ERROR_MESSAGES.UNCONFIRMED_CREATE,
+            });
+            logger.log(`Outbox item unconfirmed: ${queued.operation.type}`);
+            continue;
+          }
+
+          // Being offline does not count against the item, only against the backoff
+          if (isNetworkError(error)) {
+            this.offlineRetries += 1;
+            const delay = this.getRetryDelay(this.offlineRetries);
+            this.update(queued.id, {
+              lastAttemptAt: Date.now(),
+              nextAttemptAt: Date.now() + delay,
+              error: message,
+            });
+            logger.log(`Outbox offline, retrying in ${delay}ms`);
+            this.scheduleRetry(delay);
+            break;
+          }
+
+          if (isPermanent || attempts >= OUTBOX_CONFIG.MAX_ATTEMPTS) {
+            this.update(queued.id, {
+              status: 'failed',
+              attempts,
+              lastAttemptAt: Date.now(),
+              nextAttemptAt: undefined,
+              error: message,
+            });
+            logger.error(`Outbox item failed: ${queued.operation.type}`, error);
+            continue;
+          }
+
+          const delay = this.getRetryDelay(attempts);
+          this.update(queued.id, {
+            attempts,
+            lastAttemptAt: Date.now(),
+            nextAttemptAt: Date.now() + delay,
+            error: message,
+          });
+          logger.log(`Outbox server error, retrying in ${delay}ms`);
+          this.scheduleRetry(delay);
+          break;
+        }
+      }
+
+      this.pruneSynced();
+      await this.persist();
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * @throws ValidationError if the operation refers to an item that is still being created
+   */
+  private async add(operation: OutboxOperation, description: string, held: boolean): Promise<OutboxItem> {
+    // Items still being created only have a temporary id, which the server would not know
+    const unsaved = referencesOf(operation).find(ref => ref.id < 0);
+    if (unsaved) {
+      throw new ValidationError(`Can't queue "${description}" until the ${unsaved.entity} it refers to has been saved`);
+    }
+
+    await this.load();
+
+    const item: OutboxItem = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      operation,
+      description,
+      profileId: session.getCredentials()?.profileId,
+      status: 'pending',
+      attempts: 0,
+      createdAt: Date.now(),
+    };
+
+    if (held) this.held.add(item.id);
+    this.items = [...this.items, item];
+    await this.persist();
+    logger.log(`Outbox queued: ${operation.type}`);
+
+    this.scheduleRetry(OUTBOX_CONFIG.BASE_RETRY_DELAY);
+    return item;
+  }
+
+  /**
+   * Run a queued operation against the API
+   */
+  private async execute(operation: OutboxOperation): Promise<void> {
+    switch (operation.type) {
+      case 'form.create':
+        await formAPI.create(operation.payload);
+        return;
+      case 'form.update':
+        await formAPI.update(operation.id, operation.payload);
+        return;
+      case 'form.delete':
+        await formAPI.delete(operation.id);
+        return;
+      case 'field.create':
+        await fieldAPI.create(operation.payload);
+        return;
+      case 'field.update':
+        await fieldAPI.update(operation.id, operation.payload);
+        return;
+      case 'field.delete':
+        await fieldAPI.delete(operation.id);
+        return;
+      case 'record.create':
+        await recordAPI.create(operation.payload);
+        return;
+      case 'record.update':
+        await recordAPI.update(operation.id, operation.payload);
+        return;
+      case 'record.delete':
+        await recordAPI.delete(operation.id);
+        return;
+      case 'record.renameKey': {
+        const { failed } = await recordAPI.renameValueKey(operation.formId, operation.oldKey, operation.newKey);
+        if (failed.length > 0) {
+          throw new ValidationError(`${failed.length} ${failed.length === 1 ? 'record' : 'records'} could not be migrated`);
+        }
+        return;
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff capped at MAX_RETRY_DELAY
+   */
+  private getRetryDelay(attempts: number): number {
+    const delay = OUTBOX_CONFIG.BASE_RETRY_DELAY * Math.pow(2, Math.max(attempts - 1, 0));
+    return Math.min(delay, OUTBOX_CONFIG.MAX_RETRY_DELAY);
+  }
+
+  private scheduleRetry(delay: number): void {
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private update(id: string, changes: Partial<OutboxItem>): void {
+    this.items = this.items.map(item => (item.id === id ? { ...item, ...changes } : item));
+    this.notify();
+  }
+
+  /**
+   * Drop synced items once they are older than SYNCED_RETENTION
+   */
+  private pruneSynced(): void {
+    const cutoff = Date.now() - OUTBOX_CONFIG.SYNCED_RETENTION;
+    this.items = this.items.filter(
+      item => item.status !== 'synced' || (item.lastAttemptAt ?? item.createdAt) > cutoff
+    );
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const value = await AsyncStorage.getItem(OUTBOX_CONFIG.STORAGE_KEY);
+          this.items = value ? JSON.parse(value) : [];
+        } catch (error) {
+          logger.error('Outbox load error:', error);
+          this.items = [];
+        }
+        this.loaded = true;
+      })();
+    }
+
+    await this.loading;
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(OUTBOX_CONFIG.STORAGE_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      logger.error('Outbox persist error:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.items));
+  }
+}
+
+// Export singleton instance
+export const outbox = new OutboxManager();
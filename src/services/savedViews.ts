@@ -0,0 +1,113 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SavedView } from '../types';
+import { session } from './session';
+import { logger } from '../utils/logger';
+import { NotFoundError } from '../utils/errors';
+import { SAVED_VIEWS_CONFIG } from '../constants/appConstants';
+
+export type SavedViewInput = Omit<SavedView, 'id' | 'profileId' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Named filter views, stored on the device per form
+ * Views belong to the profile that saved them, since form ids differ between servers
+ */
+class SavedViewStore {
+  private views: SavedView[] = [];
+  private loaded = false;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Views of a form saved under the active profile, sorted by name
+   */
+  async getByForm(formId: number): Promise<SavedView[]> {
+    await this.load();
+    return this.visible()
+      .filter(view => view.formId === formId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<SavedView> {
+    await this.load();
+    const view = this.visible().find(v => v.id === id);
+    if (!view) throw new NotFoundError('View');
+    return view;
+  }
+
+  /**
+   * Create a view, or update it when an id is given
+   */
+  async save(input: SavedViewInput, id?: string): Promise<SavedView> {
+    await this.load();
+    const now = Date.now();
+    const existing = id ? this.views.find(view => view.id === id) : undefined;
+
+    const view: SavedView = existing
+      ? { ...existing, ...input, updatedAt: now }
+      : {
+          ...input,
+          id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+          profileId: session.getCredentials()?.profileId,
+          createdAt: now,
+          updatedAt: now,
+        };
+
+    await this.persist(existing ? this.views.map(v => (v.id === view.id ? view : v)) : [...this.views, view]);
+    logger.log(`Saved view "${view.name}" for form ${view.formId}`);
+    return view;
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.load();
+    await this.persist(this.views.filter(view => view.id !== id));
+  }
+
+  /**
+   * Drop every view of a form, e.g. after the form is deleted
+   */
+  async removeForForm(formId: number): Promise<void> {
+    await this.load();
+    const profileId = session.getCredentials()?.profileId;
+    await this.persist(this.views.filter(view => view.formId !== formId || view.profileId !== profileId));
+  }
+
+  private visible(): SavedView[] {
+    const profileId = session.getCredentials()?.profileId;
+    return this.views.filter(view => view.profileId === profileId);
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          await session.load();
+          const value = await AsyncStorage.getItem(SAVED_VIEWS_CONFIG.STORAGE_KEY);
+          this.views = value ? JSON.parse(value) : [];
+        } catch (error) {
+          logger.error('Saved views load error:', error);
+          this.views = [];
+        }
+        this.loaded = true;
+      })();
+    }
+
+    await this.loading;
+  }
+
+  /**
+   * Store a new list of views; it only replaces the current one once written
+   */
+  private async persist(views: SavedView[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(SAVED_VIEWS_CONFIG.STORAGE_KEY, JSON.stringify(views));
+    } catch (error) {
+      logger.error('Saved views persist error:', error);
+      throw error;
+    }
+    this.views = views;
+  }
+}
+
+// Export singleton instance
+export const savedViews = new SavedViewStore();
@@ -0,0 +1,157 @@
+import { Field, FilterCriteria, FilterGroup, Form, Record, RecordValues } from '../types';
+import { formAPI, fieldAPI, recordAPI } from './api';
+import { logger } from '../utils/logger';
+import { isNetworkError } from '../utils/errors';
+import { filterRecords, sortRecords } from '../utils/queryEngine';
+import { containsTerm } from '../utils/textSearch';
+import { formatFieldValue } from '../utils/fieldValues';
+import { isBarcodeValue } from '../utils/barcodes';
+import { SEARCH_CONFIG } from '../constants/appConstants';
+
+/**
+ * A value that contained the search term: a field of a record, or a form's name or description
+ */
+export interface SearchMatch {
+  key: string;
+  text: string;
+}
+
+export interface RecordSearchResult {
+  record: Record;
+  matches: SearchMatch[];
+}
+
+/**
+ * Matches within one form
+ */
+export interface FormSearchResult {
+  form: Form;
+  /** Matches in the form's own name and description */
+  matches: SearchMatch[];
+  records: RecordSearchResult[];
+}
+
+export interface SearchResults {
+  term: string;
+  groups: FormSearchResult[];
+  recordCount: number;
+  /** More records matched than SEARCH_CONFIG.MAX_RESULTS */
+  truncated: boolean;
+  /** Searched the data saved on this device because the server was unreachable */
+  local: boolean;
+}
+
+interface RecordMatches {
+  records: Record[];
+  truncated: boolean;
+}
+
+/**
+ * Fields whose values are searched as text; locations, images and yes/no answers are skipped
+ */
+const isSearchable = (field: Field): boolean =>
+  field.field_type !== 'location' &&
+  field.field_type !== 'image' &&
+  field.field_type !== 'boolean' &&
+  !field.name.includes('"');
+
+/**
+ * One "contains" condition per searchable key, any of which may match
+ * Barcodes are searched by their decoded text; a key that is a barcode in some forms and
+ * not in others gets a condition for each, and records are checked against their own form after
+ */
+const toSearchFilters = (fields: Field[], term: string): FilterGroup => {
+  const conditions = new Map<string, FilterCriteria>();
+  fields.forEach(field => {
+    const isBarcode = field.field_type === 'barcode';
+    conditions.set(`${isBarcode}:${field.name}`, {
+      field: field.name,
+      operator: 'ilike',
+      value: term,
+      fieldType: isBarcode ? 'barcode' : undefined,
+    });
+  });
+  return { logic: 'or', children: Array.from(conditions.values()) };
+};
+
+/**
+ * Text a value is searched by: a barcode's decoded text, or the value as record lists show it
+ */
+const searchText = (value: RecordValues[string]): string =>
+  isBarcodeValue(value) ? value.text : formatFieldValue(value);
+
+/**
+ * Match the term against the server with ilike, newest records first
+ */
+const searchServer = async (formIds: number[], fields: Field[], keys: string[], term: string): Promise<RecordMatches> => {
+  const page = await recordAPI.getPage(formIds, {
+    filters: toSearchFilters(fields, term),
+    sort: { direction: 'desc' },
+    limit: SEARCH_CONFIG.MAX_RESULTS,
+    valueKeys: keys,
+  });
+  return { records: page.records, truncated: page.hasMore };
+};
+
+/**
+ * Match the term against the records cached on this device, with the same semantics as the server
+ */
+const searchCache = async (formIds: number[], fields: Field[], term: string): Promise<RecordMatches> => {
+  const cached = (await Promise.all(formIds.map(id => recordAPI.getCachedByFormId(id)))).flat();
+  const matched = sortRecords(filterRecords(cached, toSearchFilters(fields, term)), { direction: 'desc' });
+  return { records: matched.slice(0, SEARCH_CONFIG.MAX_RESULTS), truncated: matched.length > SEARCH_CONFIG.MAX_RESULTS };
+};
+
+/**
+ * Search every form's name and description and every record's text values
+ * Uses the server when reachable and falls back to cached data when offline
+ */
+export const searchAll = async (term: string): Promise<SearchResults> => {
+  const trimmed = term.trim();
+  const forms = await formAPI.getAll();
+  const formIds = forms.map(f => f.id);
+  const fields = (await fieldAPI.getByFormIds(formIds)).filter(isSearchable);
+  const keys = Array.from(new Set(fields.map(f => f.name)));
+
+  let found: RecordMatches = { records: [], truncated: false };
+  let local = false;
+  if (keys.length > 0) {
+    try {
+      found = await searchServer(formIds, fields, keys, trimmed);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      logger.log('Searching cached records while offline');
+      found = await searchCache(formIds, fields, trimmed);
+      local = true;
+    }
+  }
+  const { truncated } = found;
+
+  const groups = forms
+    .map((form): FormSearchResult => {
+      const formKeys = fields.filter(f => f.form_id === form.id).map(f => f.name);
+      return {
+        form,
+        matches: [
+          { key: 'Name', text: form.name },
+          { key: 'Description', text: form.description ?? '' },
+        ].filter(match => containsTerm(match.text, trimmed)),
+        records: found.records
+          .filter(record => record.form_id === form.id)
+          .map(record => ({
+            record,
+            matches: formKeys
+              .filter(key => record.values[key] !== null && record.values[key] !== undefined)
+              .map(key => ({ key, text: searchText(record.values[key]) }))
+              .filter(match => containsTerm(match.text, trimmed)),
+          }))
+          // Matched only through a condition meant for another form's field of the same name
+          .filter(result => result.matches.length > 0),
+      };
+    })
+    .filter(group => group.matches.length > 0 || group.records.length > 0);
+
+  const recordCount = groups.reduce((count, group) => count + group.records.length, 0);
+  logger.log(`Search "${trimmed}" matched ${recordCount} records in ${groups.length} forms`);
+  return { term: trimmed, groups, recordCount, truncated, local };
+};
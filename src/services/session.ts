@@ -0,0 +1,285 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { ServerProfile } from '../types';
+import { logger } from '../utils/logger';
+import { cache } from '../utils/cache';
+import { API_CONFIG, SESSION_CONFIG } from '../constants/appConstants';
+
+export interface Credentials {
+  profileId: string;
+  baseUrl: string;
+  username: string;
+  token: string;
+}
+
+type SessionListener = (credentials: Credentials | null) => void;
+
+/**
+ * Remove trailing slashes so paths can be appended with a single '/'
+ */
+export const normalizeBaseUrl = (url: string): string => url.trim().replace(/\/+$/, '');
+
+/**
+ * Session manager for server profiles and the signed-in account
+ * Profile metadata lives in AsyncStorage, tokens in the device's secure storage.
+ * The active profile is mirrored in memory so request headers can be built synchronously
+ */
+class SessionManager {
+  private profiles: ServerProfile[] = [];
+  private activeId: string | null = null;
+  private credentials: Credentials | null = null;
+  private loading: Promise<Credentials | null> | null = null;
+  private listeners = new Set<SessionListener>();
+  private unauthorizedHandlers = new Set<() => void>();
+
+  /**
+   * Load profiles and the active profile's token (only reads storage once)
+   */
+  load(): Promise<Credentials | null> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        try {
+          const [profiles, activeId] = await Promise.all([
+            AsyncStorage.getItem(SESSION_CONFIG.PROFILES_KEY),
+            AsyncStorage.getItem(SESSION_CONFIG.ACTIVE_PROFILE_KEY),
+          ]);
+          this.profiles = profiles ? JSON.parse(profiles) : [];
+          this.activeId = activeId;
+
+          this.credentials = await this.readCredentials(this.activeId);
+        } catch (error) {
+          logger.error('Session load error:', error);
+          this.credentials = null;
+        }
+        return this.credentials;
+      })();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Sign in to a server, reusing the profile for the same server and username if one exists
+   */
+  async signIn(username: string, token: string, baseUrl: string = API_CONFIG.BASE_URL): Promise<ServerProfile> {
+    await this.load();
+    const url = normalizeBaseUrl(baseUrl);
+    const existing = this.profiles.find(p => p.baseUrl === url && p.username === username);
+
+    const profile = await this.saveProfile(
+      { id: existing?.id, name: existing?.name || this.defaultProfileName(url, username), baseUrl: url, username },
+      token
+    );
+    await this.activate(profile.id);
+    return profile;
+  }
+
+  /**
+   * Forget the active profile's token and clear cached data
+   * The profile itself is kept so the user can sign back in from the server settings
+   */
+  async signOut(): Promise<void> {
+    await this.load();
+
+    if (this.activeId) {
+      await this.deleteToken(this.activeId);
+    }
+
+    await cache.clear();
+    this.activeId = null;
+    this.credentials = null;
+    await this.persist();
+    logger.log('Signed out');
+    this.notify();
+  }
+
+  /**
+   * Add or update a profile
+   * @param token - New token; omit to keep the stored one
+   */
+  async saveProfile(
+    profile: Omit<ServerProfile, 'id'> & { id?: string },
+    token?: string
+  ): Promise<ServerProfile> {
+    await this.load();
+
+    const saved: ServerProfile = {
+      ...profile,
+      id: profile.id || `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      baseUrl: normalizeBaseUrl(profile.baseUrl),
+    };
+
+    const exists = this.profiles.some(p => p.id === saved.id);
+    this.profiles = exists
+      ? this.profiles.map(p => (p.id === saved.id ? saved : p))
+      : [...this.profiles, saved];
+
+    if (token !== undefined) {
+      await SecureStore.setItemAsync(this.tokenKey(saved.id), token);
+    }
+    await this.persist();
+
+    // Editing the active profile changes where requests go, so treat it as a switch
+    if (saved.id === this.activeId) {
+      await this.applyActive();
+    } else {
+      this.notify();
+    }
+
+    return saved;
+  }
+
+  /**
+   * Make a profile the one used by every API call
+   * Cached data belongs to the previous server/account, so it is cleared when either changes
+   */
+  async activate(id: string): Promise<void> {
+    await this.load();
+    if (!this.profiles.some(p => p.id === id)) return;
+
+    this.activeId = id;
+    await this.persist();
+    await this.applyActive();
+  }
+
+  /**
+   * Remove a profile and its token; removing the active profile signs out
+   */
+  async deleteProfile(id: string): Promise<void> {
+    await this.load();
+
+    await this.deleteToken(id);
+    this.profiles = this.profiles.filter(p => p.id !== id);
+
+    if (this.activeId === id) {
+      await cache.clear();
+      this.activeId = null;
+      this.credentials = null;
+    }
+
+    await this.persist();
+    this.notify();
+  }
+
+  getProfiles(): ServerProfile[] {
+    return this.profiles;
+  }
+
+  getActiveProfile(): ServerProfile | null {
+    return this.profiles.find(p => p.id === this.activeId) ?? null;
+  }
+
+  /**
+   * Stored token for a profile, or null if it has been signed out
+   */
+  async getToken(id: string): Promise<string | null> {
+    return SecureStore.getItemAsync(this.tokenKey(id));
+  }
+
+  getCredentials(): Credentials | null {
+    return this.credentials;
+  }
+
+  getUsername(): string | null {
+    return this.credentials?.username ?? null;
+  }
+
+  /**
+   * Base URL of the active profile, or the default server when signed out
+   */
+  getBaseUrl(): string {
+    return this.credentials?.baseUrl ?? API_CONFIG.BASE_URL;
+  }
+
+  /**
+   * Subscribe to sign in/out and profile changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: SessionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Register a handler for rejected credentials (HTTP 401)
+   * @returns Unsubscribe function
+   */
+  onUnauthorized(handler: () => void): () => void {
+    this.unauthorizedHandlers.add(handler);
+    return () => {
+      this.unauthorizedHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Called by the API layer when the server rejects the current credentials
+   */
+  handleUnauthorized(): void {
+    logger.warn('Credentials rejected by server');
+    this.unauthorizedHandlers.forEach(handler => handler());
+  }
+
+  /**
+   * Reload the active profile's credentials, clearing the cache if the identity changed
+   */
+  private async applyActive(): Promise<void> {
+    const previous = this.credentials;
+    const next = await this.readCredentials(this.activeId);
+
+    if (!next || previous?.baseUrl !== next.baseUrl || previous?.username !== next.username) {
+      await cache.clear();
+    }
+
+    this.credentials = next;
+    logger.log(next ? `Signed in as ${next.username} on ${next.baseUrl}` : 'No active profile');
+    this.notify();
+  }
+
+  private async readCredentials(id: string | null): Promise<Credentials | null> {
+    const profile = this.profiles.find(p => p.id === id);
+    if (!profile) return null;
+
+    const token = await this.getToken(profile.id);
+    if (!token) return null;
+
+    return { profileId: profile.id, baseUrl: profile.baseUrl, username: profile.username, token };
+  }
+
+  private defaultProfileName(baseUrl: string, username: string): string {
+    const host = baseUrl.replace(/^https?:\/\//, '').split('/')[0];
+    return `${username} @ ${host}`;
+  }
+
+  private tokenKey(id: string): string {
+    return `${SESSION_CONFIG.TOKEN_KEY_PREFIX}${id}`;
+  }
+
+  private async deleteToken(id: string): Promise<void> {
+    try {
+      await SecureStore.deleteItemAsync(this.tokenKey(id));
+    } catch (error) {
+      logger.error('Delete token error:', error);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(SESSION_CONFIG.PROFILES_KEY, JSON.stringify(this.profiles));
+      if (this.activeId) {
+        await AsyncStorage.setItem(SESSION_CONFIG.ACTIVE_PROFILE_KEY, this.activeId);
+      } else {
+        await AsyncStorage.removeItem(SESSION_CONFIG.ACTIVE_PROFILE_KEY);
+      }
+    } catch (error) {
+      logger.error('Session persist error:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.credentials));
+  }
+}
+
+// Export singleton instance
+export const session = new SessionManager();
@@ -0,0 +1,79 @@
+import { TOAST_CONFIG } from '../constants/appConstants';
+
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
+export interface ToastMessage {
+  id: number;
+  message: string;
+  type: 'info' | 'success' | 'error';
+  action?: ToastAction;
+  duration: number;
+}
+
+type ToastListener = (toast: ToastMessage | null) => void;
+
+/**
+ * Short messages shown at the bottom of the screen without blocking it
+ * One toast is shown at a time; a new one replaces the current one
+ */
+class ToastManager {
+  private current: ToastMessage | null = null;
+  private nextId = 1;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<ToastListener>();
+
+  show(
+    message: string,
+    options: { type?: ToastMessage['type']; action?: ToastAction; duration?: number } = {}
+  ): void {
+    this.current = {
+      id: this.nextId++,
+      message,
+      type: options.type ?? 'info',
+      action: options.action,
+      duration: options.duration ?? TOAST_CONFIG.DURATION_MS,
+    };
+    this.notify();
+
+    if (this.timer) clearTimeout(this.timer);
+    const { id } = this.current;
+    this.timer = setTimeout(() => this.dismiss(id), this.current.duration);
+  }
+
+  error(message: string, action?: ToastAction): void {
+    this.show(message, { type: 'error', action });
+  }
+
+  /**
+   * Hide the current toast, or only the given one if it is still showing
+   */
+  dismiss(id?: number): void {
+    if (!this.current || (id !== undefined && this.current.id !== id)) return;
+    this.current = null;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.notify();
+  }
+
+  /**
+   * Subscribe to the toast being shown or hidden
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: ToastListener): () => void {
+    this.listeners.add(listener);
+    listener(this.current);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener(this.current));
+  }
+}
+
+// Export singleton instance
+export const toast = new ToastManager();
@@ -15,10 +15,60 @@ export interface Field {
   required: boolean;
   is_num: boolean;
   order_index: number;
+  /** Settings specific to the field type; null or left out when it has none */
+  config?: FieldConfig | null;
   username: string;
 }
 
-export type FieldType = 'text' | 'multiline' | 'multiple choice' | 'location' | 'image';
+export type FieldType =
+  | 'text'
+  | 'multiline'
+  | 'multiple choice'
+  | 'location'
+  | 'image'
+  | 'date'
+  | 'time'
+  | 'datetime'
+  | 'checkboxes'
+  | 'number'
+  | 'boolean'
+  | 'barcode';
+
+/**
+ * Type-specific field settings, stored as JSON with the field
+ */
+export interface FieldConfig {
+  /** Earliest allowed date, time or date-time, stored like the values */
+  minDate?: string;
+  /** Latest allowed date, time or date-time, stored like the values */
+  maxDate?: string;
+  /** Fill in the current date or time when a record is created */
+  defaultNow?: boolean;
+  /** Fewest options a checkboxes answer may select */
+  minSelected?: number;
+  /** Most options a checkboxes answer may select */
+  maxSelected?: number;
+  /** Smallest allowed number */
+  min?: number;
+  /** Largest allowed number */
+  max?: number;
+  /** Decimal places allowed and shown; 0 allows whole numbers only, undefined allows any */
+  decimals?: number;
+  /** Numbers must be a multiple of this from the minimum (or from 0); also the stepper increment */
+  step?: number;
+  /** Shown after numbers, e.g. "kg" or "°C" */
+  unit?: string;
+  /** How numbers are entered */
+  numberInput?: NumberInputStyle;
+  /** Yes/no questions may be left unanswered instead of starting as "no" */
+  allowUnanswered?: boolean;
+  /** Regular expression a scanned code must match in full */
+  pattern?: string;
+  /** A scanned code must start with one of these */
+  prefixes?: string[];
+}
+
+export type NumberInputStyle = 'keyboard' | 'stepper' | 'slider';
 
 export interface Record {
   id: number;
@@ -27,8 +77,36 @@ export interface Record {
   username: string;
 }
 
+/**
+ * One page of records plus the total row count reported by the server
+ */
+export interface RecordPage {
+  records: Record[];
+  /** Total matching rows, or null if the server did not report it */
+  total: number | null;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+/**
+ * Order of a record query: by a field's value, or by record id when no field is given
+ */
+export interface RecordSort {
+  field?: string;
+  direction: 'asc' | 'desc';
+  /** Compare the field's values as numbers rather than text */
+  numeric?: boolean;
+}
+
+/**
+ * Values by field name
+ * Dates and times are ISO 8601 text: date "2024-03-15", time "14:30",
+ * datetime "2024-03-15T04:30:00.000Z" (always UTC); checkboxes are an array of the selected options,
+ * yes/no answers a JSON boolean
+ */
 export type RecordValues = {
-  [fieldName: string]: string | number | LocationValue | null;
+  [fieldName: string]: string | number | boolean | string[] | LocationValue | BarcodeValue | null;
 };
 
 export interface LocationValue {
@@ -36,18 +114,137 @@ export interface LocationValue {
   lng: number;
 }
 
-export type FilterOperator = 'ilike' | 'like' | 'eq' | 'gt' | 'lt' | 'gte' | 'lte';
+/**
+ * A scanned barcode or QR code
+ */
+export interface BarcodeValue {
+  /** Decoded contents */
+  text: string;
+  /** Barcode format as reported by the scanner, e.g. "qr" or "code128"; missing for imported codes */
+  symbology?: string;
+}
+
+export type FilterOperator =
+  | 'ilike'
+  | 'like'
+  | 'endswith'
+  | 'eq'
+  | 'neq'
+  | 'gt'
+  | 'lt'
+  | 'gte'
+  | 'lte'
+  | 'empty'
+  | 'notempty'
+  | 'in'
+  | 'between'
+  | 'within'
+  | 'bbox'
+  | 'hasany'
+  | 'hasall'
+  | 'istrue'
+  | 'isfalse';
 export type FilterLogic = 'and' | 'or';
 
 export interface FilterCriteria {
   field: string;
   operator: FilterOperator;
   value: string;
+  /**
+   * Operands of multi-value operators:
+   * in: the accepted values; hasany / hasall: the options looked for; between: [min, max];
+   * within: [lat, lng, radius in km]; bbox: [south, west, north, east]
+   */
+  values?: string[];
+  /** How this filter joins the next one in a flat list (ignored inside a FilterGroup) */
   logic?: FilterLogic;
+  /** Match records that do NOT meet this condition */
+  negate?: boolean;
+  /** Type of the field when the filter was made; dates and times are compared chronologically */
+  fieldType?: FieldType;
+}
+
+/**
+ * A group of conditions and nested groups joined by one logic operator
+ */
+export interface FilterGroup {
+  logic: FilterLogic;
+  /** Match records that do NOT match the group as a whole */
+  negate?: boolean;
+  children: FilterNode[];
+}
+
+export type FilterNode = FilterCriteria | FilterGroup;
+
+/**
+ * Filters accepted by the records API: a filter tree, or a flat list
+ * where consecutive OR filters form a group and groups are joined with AND
+ */
+export type RecordFilters = FilterCriteria[] | FilterGroup;
+
+/**
+ * A named, reusable set of filters with its own sort order and columns
+ */
+export interface SavedView {
+  id: string;
+  formId: number;
+  name: string;
+  filters: FilterGroup;
+  sort: RecordSort;
+  /** Field names to show, in order; every field is shown when empty */
+  columns: string[];
+  /** Profile that saved the view; views are only listed while it is active */
+  profileId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Offline Outbox Types
+export type OutboxOperation =
+  | { type: 'form.create'; payload: Omit<Form, 'id' | 'username'> }
+  | { type: 'form.update'; id: number; payload: Partial<Omit<Form, 'id' | 'username'>> }
+  | { type: 'form.delete'; id: number }
+  | { type: 'field.create'; payload: Omit<Field, 'id' | 'username'> }
+  | { type: 'field.update'; id: number; payload: Partial<Omit<Field, 'id' | 'username' | 'form_id'>> }
+  | { type: 'field.delete'; id: number }
+  | { type: 'record.create'; payload: Omit<Record, 'id' | 'username'> }
+  | { type: 'record.update'; id: number; payload: Partial<Omit<Record, 'id' | 'username'>> }
+  | { type: 'record.delete'; id: number }
+  /** Move existing answers to a renamed field's new key */
+  | { type: 'record.renameKey'; formId: number; fieldId: number; oldKey: string; newKey: string };
+
+/** uncertain: a create that timed out, which the server may have saved; only sent again on request */
+export type OutboxStatus = 'pending' | 'failed' | 'uncertain' | 'synced';
+
+/**
+ * A named server connection; the token is stored separately in secure storage
+ */
+export interface ServerProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  username: string;
+}
+
+export interface OutboxItem {
+  id: string;
+  operation: OutboxOperation;
+  description: string;
+  /** Profile that queued the change; only replayed while that profile is active */
+  profileId?: string;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  lastAttemptAt?: number;
+  nextAttemptAt?: number;
+  error?: string;
 }
 
 export type RootStackParamList = {
   Landing: undefined;
+  SignIn: undefined;
+  ServerSettings: undefined;
+  ProfileEdit: { profileId?: string } | undefined;
   MainTabs: { screen?: keyof TabParamList; params?: any } | undefined;
   Home: undefined;
   About: undefined;
@@ -56,13 +253,18 @@ export type RootStackParamList = {
   FormEdit: { formId: number };
   FormDetail: { formId: number; formName: string };
   FieldCreate: { formId: number };
+  FieldEdit: { formId: number; fieldId: number };
   RecordCreate: { formId: number; formName: string };
-  RecordList: { formId: number; formName: string };
+  RecordEdit: { formId: number; formName: string; recordId: number };
+  RecordList: { formId: number; formName: string; viewId?: string };
   RecordsList: undefined;
-  FilterBuilder: { formId: number; formName: string };
+  FilterBuilder: { formId: number; formName: string; viewId?: string };
+  Export: { formId: number; formName: string; filters?: RecordFilters; sort?: RecordSort };
+  Import: { formId: number; formName: string };
   Map: undefined;
   Help: undefined;
   MapList: undefined;
+  Outbox: undefined;
 };
 
 export type TabParamList = {
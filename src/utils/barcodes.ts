@@ -0,0 +1,47 @@
+/**
+ * Helpers for barcode field values: checking scanned codes and finding records by code
+ */
+
+import { BarcodeValue, Field, FieldConfig, FilterGroup } from '../types';
+
+export const isBarcodeValue = (value: unknown): value is BarcodeValue =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as BarcodeValue).text === 'string';
+
+/**
+ * Compile a field's pattern so it must match the whole code; null if the pattern is not a valid regular expression
+ */
+export const compilePattern = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * What is wrong with a scanned code for a field's settings, or null if it is accepted
+ */
+export const describeBarcodeProblem = (text: string, config: FieldConfig = {}): string | null => {
+  const { pattern, prefixes } = config;
+  if (prefixes && prefixes.length > 0 && !prefixes.some(prefix => text.startsWith(prefix))) {
+    return `"${text}" doesn't start with ${prefixes.map(prefix => `"${prefix}"`).join(' or ')}`;
+  }
+  const expression = pattern ? compilePattern(pattern) : null;
+  if (expression && !expression.test(text)) {
+    return `"${text}" is not in the expected format`;
+  }
+  return null;
+};
+
+/**
+ * Conditions finding records whose barcode or text fields hold exactly the scanned code
+ * Returns null when the form has no field a code could be stored in
+ */
+export const barcodeSearchFilter = (fields: Field[], text: string): FilterGroup | null => {
+  const searchable = fields.filter(field => field.field_type === 'barcode' || field.field_type === 'text');
+  if (searchable.length === 0) return null;
+  return {
+    logic: 'or',
+    children: searchable.map(field => ({ field: field.name, operator: 'eq', value: text, fieldType: field.field_type })),
+  };
+};
@@ -11,12 +11,24 @@ interface CacheEntry<T> {
   expiresAt: number;
 }
 
+type CacheListener<T> = (data: T) => void;
+
 /**
  * Cache utility for offline data storage
  * Uses AsyncStorage to persist data across app sessions
  */
 class CacheManager {
   private prefix = '@FormBase:';
+  private indexKey = '__lru_index';
+  private accessIndex: { [key: string]: number } | null = null;
+  private listeners = new Map<string, Set<CacheListener<any>>>();
+  private inflight = new Map<string, Promise<any>>();
+  private indexSaveTimer: ReturnType<typeof setTimeout> | null = null;
+  // Fetches started before their key was dropped must not write old data back:
+  // a counter orders the two, with the time each key was last dropped while being fetched
+  private clock = 0;
+  private clearedAt = 0;
+  private droppedAt = new Map<string, number>();
 
   /**
    * Generate cache key with prefix
@@ -25,6 +37,82 @@ class CacheManager {
     return `${this.prefix}${key}`;
   }
 
+  /**
+   * Load the LRU access index (key -> last access time) from storage
+   */
+  private async getAccessIndex(): Promise<{ [key: string]: number }> {
+    if (this.accessIndex) {
+      return this.accessIndex;
+    }
+
+    try {
+      const value = await AsyncStorage.getItem(this.getKey(this.indexKey));
+      this.accessIndex = value ? JSON.parse(value) : {};
+    } catch (error) {
+      logger.error('Cache index load error:', error);
+      this.accessIndex = {};
+    }
+
+    return this.accessIndex!;
+  }
+
+  /**
+   * Record an access to a key for LRU eviction
+   * The index is kept in memory and written a moment later, so reads don't each cost a write
+   */
+  private async touch(key: string): Promise<void> {
+    const index = await this.getAccessIndex();
+    index[key] = Date.now();
+    this.scheduleIndexSave();
+  }
+
+  private scheduleIndexSave(): void {
+    if (this.indexSaveTimer) return;
+    this.indexSaveTimer = setTimeout(() => {
+      this.indexSaveTimer = null;
+      this.saveAccessIndex();
+    }, CACHE_CONFIG.INDEX_SAVE_DELAY);
+  }
+
+  private async saveAccessIndex(): Promise<void> {
+    if (this.indexSaveTimer) {
+      clearTimeout(this.indexSaveTimer);
+      this.indexSaveTimer = null;
+    }
+    try {
+      await AsyncStorage.setItem(this.getKey(this.indexKey), JSON.stringify(this.accessIndex || {}));
+    } catch (error) {
+      logger.error('Cache index save error:', error);
+    }
+  }
+
+  /**
+   * Evict least recently used entries until CACHE_CONFIG.MAX_ITEMS is respected
+   */
+  private async enforceLimit(): Promise<void> {
+    const index = await this.getAccessIndex();
+    const keys = Object.keys(index);
+
+    if (keys.length <= CACHE_CONFIG.MAX_ITEMS) {
+      return;
+    }
+
+    const evicted = keys
+      .sort((a, b) => index[a] - index[b])
+      .slice(0, keys.length - CACHE_CONFIG.MAX_ITEMS);
+
+    evicted.forEach(key => delete index[key]);
+
+    try {
+      await AsyncStorage.multiRemove(evicted.map(key => this.getKey(key)));
+      logger.log(`Cache evicted ${evicted.length} least recently used entries`);
+    } catch (error) {
+      logger.error('Cache eviction error:', error);
+    }
+
+    await this.saveAccessIndex();
+  }
+
   /**
    * Check if cache entry is expired
    */
@@ -48,6 +136,9 @@ class CacheManager {
 
       await AsyncStorage.setItem(this.getKey(key), JSON.stringify(entry));
       logger.log(`Cache set: ${key}`);
+
+      await this.touch(key);
+      await this.enforceLimit();
     } catch (error) {
       logger.error('Cache set error:', error);
     }
@@ -71,11 +162,12 @@ class CacheManager {
 
       if (this.isExpired(entry)) {
         logger.log(`Cache expired: ${key}`);
-        await this.remove(key);
+        await this.removeEntry(key);
         return null;
       }
 
       logger.log(`Cache hit: ${key}`);
+      await this.touch(key);
       return entry.data;
     } catch (error) {
       logger.error('Cache get error:', error);
@@ -83,13 +175,69 @@ class CacheManager {
     }
   }
 
+  /**
+   * Get item from cache even if it has expired
+   * Used to serve stale data while revalidating or when offline
+   * @param key - Cache key
+   */
+  async getStale<T>(key: string): Promise<T | null> {
+    try {
+      const value = await AsyncStorage.getItem(this.getKey(key));
+
+      if (!value) {
+        return null;
+      }
+
+      const entry: CacheEntry<T> = JSON.parse(value);
+      await this.touch(key);
+      return entry.data;
+    } catch (error) {
+      logger.error('Cache get stale error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get every item whose key starts with a prefix, even if expired
+   * @param keyPrefix - Start of the cache keys to read
+   * @returns Data by cache key
+   */
+  async getAllStale<T>(keyPrefix: string): Promise<{ [key: string]: T }> {
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      const pairs = await AsyncStorage.multiGet(keys.filter(key => key.startsWith(this.getKey(keyPrefix))));
+
+      const items: { [key: string]: T } = {};
+      pairs.forEach(([key, value]) => {
+        if (value) {
+          const entry: CacheEntry<T> = JSON.parse(value);
+          items[key.slice(this.prefix.length)] = entry.data;
+        }
+      });
+      return items;
+    } catch (error) {
+      logger.error('Cache get all stale error:', error);
+      return {};
+    }
+  }
+
   /**
    * Remove item from cache
    * @param key - Cache key
    */
   async remove(key: string): Promise<void> {
+    this.drop(key);
+    await this.removeEntry(key);
+  }
+
+  private async removeEntry(key: string): Promise<void> {
     try {
       await AsyncStorage.removeItem(this.getKey(key));
+
+      const index = await this.getAccessIndex();
+      delete index[key];
+      this.scheduleIndexSave();
+
       logger.log(`Cache removed: ${key}`);
     } catch (error) {
       logger.error('Cache remove error:', error);
@@ -100,10 +248,14 @@ class CacheManager {
    * Clear all cache entries
    */
   async clear(): Promise<void> {
+    this.clearedAt = ++this.clock;
+    this.droppedAt.clear();
+    this.inflight.clear();
     try {
       const keys = await AsyncStorage.getAllKeys();
       const cacheKeys = keys.filter(key => key.startsWith(this.prefix));
       await AsyncStorage.multiRemove(cacheKeys);
+      this.accessIndex = {};
       logger.log('Cache cleared');
     } catch (error) {
       logger.error('Cache clear error:', error);
@@ -132,46 +284,117 @@ class CacheManager {
     return data;
   }
 
+  /**
+   * Stale-while-revalidate pattern
+   * Returns cached data immediately (even if expired) and refreshes it in the background,
+   * notifying subscribers of the key once fresh data arrives.
+   * Falls back to a blocking fetch when nothing is cached.
+   */
+  async staleWhileRevalidate<T>(
+    key: string,
+    fetchFn: () => Promise<T>,
+    ttl?: number
+  ): Promise<T> {
+    const cached = await this.getStale<T>(key);
+
+    if (cached !== null) {
+      this.revalidate(key, fetchFn, ttl).catch(error => {
+        logger.log(`Background refresh failed for ${key}:`, error);
+      });
+      return cached;
+    }
+
+    return this.revalidate(key, fetchFn, ttl);
+  }
+
+  /**
+   * Fetch fresh data, store it and notify subscribers
+   * Concurrent calls for the same key share a single request
+   * Data fetched before the cache was cleared or invalidated is returned but not stored
+   */
+  private revalidate<T>(key: string, fetchFn: () => Promise<T>, ttl?: number): Promise<T> {
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const startedAt = this.clock;
+    const request = (async () => {
+      const data = await fetchFn();
+      if (this.clearedAt > startedAt || (this.droppedAt.get(key) ?? 0) > startedAt) {
+        logger.log(`Cache dropped outdated refresh: ${key}`);
+        return data;
+      }
+      await this.set(key, data, ttl);
+      this.notify(key, data);
+      return data;
+    })();
+
+    this.inflight.set(key, request);
+    // A newer request may have taken the key after a clear or invalidation
+    const done = () => {
+      if (this.inflight.get(key) === request) {
+        this.inflight.delete(key);
+      }
+    };
+    request.then(done, done);
+    return request;
+  }
+
+  /**
+   * Stop a fetch of a key that is being dropped from writing its result back
+   */
+  private drop(key: string): void {
+    if (!this.inflight.has(key)) return;
+    this.droppedAt.set(key, ++this.clock);
+    this.inflight.delete(key);
+  }
+
+  /**
+   * Subscribe to fresh data for a cache key
+   * @returns Unsubscribe function
+   */
+  subscribe<T>(key: string, listener: CacheListener<T>): () => void {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(listener);
+
+    return () => {
+      const keyListeners = this.listeners.get(key);
+      keyListeners?.delete(listener);
+      if (keyListeners && keyListeners.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  private notify<T>(key: string, data: T): void {
+    this.listeners.get(key)?.forEach(listener => listener(data));
+  }
+
   /**
    * Invalidate cache by pattern
    * Removes all cache entries matching the pattern
    */
   async invalidatePattern(pattern: string): Promise<void> {
+    [...this.inflight.keys()].filter(key => key.includes(pattern)).forEach(key => this.drop(key));
     try {
       const keys = await AsyncStorage.getAllKeys();
       const matchingKeys = keys.filter(key =>
         key.startsWith(this.prefix) && key.includes(pattern)
       );
       await AsyncStorage.multiRemove(matchingKeys);
-      logger.log(`Invalidated cache pattern: ${pattern}`);
-    } catch (error) {
-      logger.error('Cache invalidate pattern error:', error);
-    }
-  }
 
-  /**
-   * Get cache statistics
-   */
-  async getStats(): Promise<{ count: number; size: number }> {
-    try {
-      const keys = await AsyncStorage.getAllKeys();
-      const cacheKeys = keys.filter(key => key.startsWith(this.prefix));
+      const index = await this.getAccessIndex();
+      Object.keys(index)
+        .filter(key => key.includes(pattern))
+        .forEach(key => delete index[key]);
+      this.scheduleIndexSave();
 
-      let totalSize = 0;
-      for (const key of cacheKeys) {
-        const value = await AsyncStorage.getItem(key);
-        if (value) {
-          totalSize += value.length;
-        }
-      }
-
-      return {
-        count: cacheKeys.length,
-        size: totalSize,
-      };
+      logger.log(`Invalidated cache pattern: ${pattern}`);
     } catch (error) {
-      logger.error('Cache stats error:', error);
-      return { count: 0, size: 0 };
+      logger.error('Cache invalidate pattern error:', error);
     }
   }
 }
@@ -184,5 +407,19 @@ export const CACHE_KEYS = {
   FORMS: 'forms',
   FORM: (id: number) => `form_${id}`,
   FIELDS: (formId: number) => `fields_${formId}`,
+  /** Fields of several forms fetched together */
+  FIELDS_FOR_FORMS: (formIds: number[]) => `fields_forms_${formIds.join('-')}`,
   RECORDS: (formId: number) => `records_${formId}`,
+  /** Records of several forms fetched together */
+  RECORDS_FOR_FORMS: (formIds: number[]) => `records_forms_${formIds.join('-')}`,
+  /** Prefix shared by all FIELDS keys, for pattern invalidation */
+  FIELDS_PREFIX: 'fields_',
+  /** Prefix shared by all RECORDS keys, for pattern invalidation */
+  RECORDS_PREFIX: 'records_',
+  /** Prefix shared by all RECORDS_FOR_FORMS keys, for pattern invalidation */
+  RECORDS_FOR_FORMS_PREFIX: 'records_forms_',
+  /** One page of a paginated record query */
+  RECORD_PAGE: (scope: string, offset: number, limit: number) => `record_pages_${scope}_${offset}_${limit}`,
+  /** Prefix shared by all RECORD_PAGE keys, for pattern invalidation */
+  RECORD_PAGES_PREFIX: 'record_pages_',
 } as const;
@@ -0,0 +1,158 @@
+/**
+ * Helpers for date, time and date-time values
+ * Values are stored as ISO 8601 text that sorts chronologically:
+ * date "2024-03-15" (local calendar day), time "14:30", datetime "2024-03-15T04:30:00.000Z" (UTC)
+ */
+
+import { FieldType, FilterCriteria } from '../types';
+
+export type TemporalType = 'date' | 'time' | 'datetime';
+
+export const isTemporalType = (type?: FieldType): type is TemporalType =>
+  type === 'date' || type === 'time' || type === 'datetime';
+
+/** How each type is written in filter inputs and imported files */
+export const TEMPORAL_FORMATS: { [type in TemporalType]: string } = {
+  date: 'YYYY-MM-DD',
+  time: 'HH:MM',
+  datetime: 'YYYY-MM-DD HH:MM',
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const DATE_ONLY = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const TIME_ONLY = /^(\d{1,2}):(\d{2})(?::\d{2}(?:\.\d+)?)?$/;
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{1,2})-(\d{1,2})[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+
+/**
+ * A local date, or null if the parts don't form a real day (e.g. February 30th)
+ */
+const localDate = (year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date | null => {
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return date;
+};
+
+/**
+ * Stored form of a date or time picked on the device
+ */
+export const toTemporalValue = (date: Date, type: TemporalType): string => {
+  if (type === 'time') return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  if (type === 'date') return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return date.toISOString();
+};
+
+/**
+ * Read a stored or typed value; null if it isn't a valid date or time
+ * Dates and date-times without a zone are local time; times are placed on today's date
+ */
+export const parseTemporal = (text: string, type: TemporalType): Date | null => {
+  const value = text.trim();
+
+  if (type === 'time') {
+    const match = value.match(TIME_ONLY);
+    if (!match) return null;
+    const now = new Date();
+    return localDate(now.getFullYear(), now.getMonth() + 1, now.getDate(), Number(match[1]), Number(match[2]));
+  }
+
+  const dateOnly = value.match(DATE_ONLY);
+  if (dateOnly) return localDate(Number(dateOnly[1]), Number(dateOnly[2]), Number(dateOnly[3]));
+
+  const local = value.match(LOCAL_DATE_TIME);
+  if (local) {
+    const [, year, month, day, hours, minutes, seconds] = local.map(Number);
+    return localDate(year, month, day, hours, minutes, seconds || 0);
+  }
+
+  // Full ISO 8601 with a zone, e.g. a stored date-time
+  if (!/^\d{4}-\d{2}-\d{2}T/.test(value)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Stored form of a typed or imported value, or null if it isn't a valid date or time
+ */
+export const normalizeTemporal = (text: string, type: TemporalType): string | null => {
+  const date = parseTemporal(text, type);
+  return date ? toTemporalValue(date, type) : null;
+};
+
+/**
+ * A stored value for display in the device's locale; values that can't be read are shown as they are
+ */
+export const formatTemporal = (text: string, type: TemporalType): string => {
+  const date = parseTemporal(text, type);
+  if (!date) return text;
+  if (type === 'date') return date.toLocaleDateString();
+  if (type === 'time') return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `${date.toLocaleDateString()} ${date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+};
+
+/**
+ * First and last stored values a typed value stands for
+ * A date-time given without a time covers the whole day, one given to the minute covers that minute;
+ * dates and times stand for themselves
+ */
+export const temporalBounds = (text: string, type: TemporalType): [string, string] | null => {
+  const date = parseTemporal(text, type);
+  if (!date) return null;
+  if (type !== 'datetime') {
+    const value = toTemporalValue(date, type);
+    return [value, value];
+  }
+
+  const end = new Date(date);
+  if (DATE_ONLY.test(text.trim())) {
+    end.setHours(23, 59, 59, 999);
+  } else {
+    end.setSeconds(59, 999);
+  }
+  return [date.toISOString(), end.toISOString()];
+};
+
+export type TemporalComparison = { operator: 'gt' | 'gte' | 'lt' | 'lte'; value: string };
+
+/**
+ * Comparisons a date or time filter makes against stored values, all of which must hold
+ * Stored values sort chronologically as text, so each comparison is a plain text comparison.
+ * A not-equal filter yields the equal comparisons to be negated as a group.
+ * Returns null for operators that don't compare dates, or for values that can't be read
+ */
+export const temporalComparisons = (filter: FilterCriteria, type: TemporalType): TemporalComparison[] | null => {
+  if (filter.operator === 'between') {
+    const [min, max] = filter.values ?? [];
+    const from = temporalBounds(min ?? '', type);
+    const to = temporalBounds(max ?? '', type);
+    if (!from || !to) return null;
+    return [
+      { operator: 'gte', value: from[0] },
+      { operator: 'lte', value: to[1] },
+    ];
+  }
+
+  const bounds = temporalBounds(filter.value, type);
+  if (!bounds) return null;
+  const [start, end] = bounds;
+
+  switch (filter.operator) {
+    case 'eq':
+    case 'neq':
+      return [
+        { operator: 'gte', value: start },
+        { operator: 'lte', value: end },
+      ];
+    case 'gt':
+      return [{ operator: 'gt', value: end }];
+    case 'gte':
+      return [{ operator: 'gte', value: start }];
+    case 'lt':
+      return [{ operator: 'lt', value: start }];
+    case 'lte':
+      return [{ operator: 'lte', value: end }];
+    default:
+      return null;
+  }
+};
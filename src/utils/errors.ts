@@ -97,6 +97,13 @@ export function isNetworkError(error: unknown): error is NetworkError {
   return error instanceof NetworkError;
 }
 
+/**
+ * Whether a request timed out; unlike other network errors it may have reached the server
+ */
+export function isTimeoutError(error: unknown): error is NetworkError {
+  return isNetworkError(error) && error.statusCode === 408;
+}
+
 /**
  * Type guard to check if error is an APIError
  */
@@ -178,13 +185,33 @@ export function getErrorMessage(error: unknown): string {
   return 'An unexpected error occurred. Please try again.';
 }
 
+/**
+ * Extract the message from a PostgREST error body ({ message, details, hint })
+ */
+function getServerMessage(body?: string): string | undefined {
+  if (!body) return undefined;
+  try {
+    const parsed = JSON.parse(body);
+    return parsed?.message || parsed?.details || undefined;
+  } catch {
+    return body.length <= 200 ? body : undefined;
+  }
+}
+
 /**
  * Parse fetch error and convert to appropriate AppError
+ * @param body - Response body, used for the server's own error message when available
  */
-export function parseFetchError(error: unknown, response?: Response): AppError {
+export function parseFetchError(error: unknown, response?: Response, body?: string): AppError {
   // Network error (no response)
   if (!response) {
-    if (error instanceof Error && error.message.includes('fetch')) {
+    if (error instanceof AppError) {
+      return error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new NetworkError('Request timed out. Please try again.', 408);
+    }
+    if (error instanceof Error && /fetch|network/i.test(error.message)) {
       return new NetworkError();
     }
     return new NetworkError('Unable to connect to server.');
@@ -192,25 +219,34 @@ export function parseFetchError(error: unknown, response?: Response): AppError {
 
   // HTTP status code errors
   const statusCode = response.status;
+  const serverMessage = getServerMessage(body);
 
   if (statusCode === 401) {
     return new AuthError();
   }
 
   if (statusCode === 403) {
-    return new PermissionError();
+    return new PermissionError(serverMessage ? `Permission denied: ${serverMessage}` : undefined);
   }
 
   if (statusCode === 404) {
     return new NotFoundError();
   }
 
+  if (statusCode === 408) {
+    return new NetworkError('Request timed out. Please try again.', 408);
+  }
+
+  if (statusCode === 429) {
+    return new APIError('Too many requests. Please wait a moment and try again.', 429, body);
+  }
+
   if (statusCode >= 400 && statusCode < 500) {
-    return new ValidationError(`Request failed with status ${statusCode}`);
+    return new ValidationError(serverMessage || `Request failed with status ${statusCode}`);
   }
 
   if (statusCode >= 500) {
-    return new APIError('Server error. Please try again later.', statusCode);
+    return new APIError('Server error. Please try again later.', statusCode, serverMessage);
   }
 
   return new AppError('An unexpected error occurred.', 'UNKNOWN', statusCode);
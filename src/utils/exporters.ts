@@ -0,0 +1,204 @@
+/**
+ * Converters from records to export file formats
+ * Pure functions so they can be reused outside the export screen
+ */
+
+import { Field, Form, Record, LocationValue } from '../types';
+import { toPlainNumber } from './numbers';
+import { isBarcodeValue } from './barcodes';
+
+export type ExportFormat = 'csv' | 'json' | 'geojson';
+
+export interface ExportedImage {
+  /** Path inside the export, e.g. "images/12_Photo.jpg" */
+  path: string;
+  /** Base64 data without the data URI prefix */
+  base64: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: { [format in ExportFormat]: { label: string; extension: string; mimeType: string } } = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+};
+
+const isLocation = (value: unknown): value is LocationValue =>
+  typeof value === 'object' && value !== null && 'lat' in value && 'lng' in value;
+
+const isImage = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith('data:image');
+
+/**
+ * Split a data URI into its mime type, file extension and base64 payload
+ */
+const parseImage = (value: string) => {
+  const match = value.match(/^data:(image\/([a-z+]+));base64,(.*)$/i);
+  if (!match) return null;
+  return { mimeType: match[1], extension: match[2] === 'jpeg' ? 'jpg' : match[2], base64: match[3] };
+};
+
+const imagePath = (record: Record, field: Field, extension: string): string =>
+  `images/${record.id}_${toFileName(field.name)}.${extension}`;
+
+/**
+ * Make a string safe to use as a file name
+ */
+export const toFileName = (name: string): string =>
+  name.trim().replace(/[^a-z0-9-_]+/gi, '_').replace(/^_+|_+$/g, '') || 'export';
+
+/**
+ * Pull base64 images out of the records
+ * Each image gets a stable path so CSV/JSON can refer to it instead of embedding the data
+ */
+export const extractImages = (records: Record[], fields: Field[]): ExportedImage[] => {
+  const images: ExportedImage[] = [];
+
+  records.forEach(record => {
+    fields
+      .filter(field => field.field_type === 'image')
+      .forEach(field => {
+        const value = record.values[field.name];
+        const image = isImage(value) ? parseImage(value) : null;
+        if (!image) return;
+
+        images.push({
+          path: imagePath(record, field, image.extension),
+          mimeType: image.mimeType,
+          base64: image.base64,
+        });
+      });
+  });
+
+  return images;
+};
+
+/**
+ * Export-ready value for a field: images become their file path (or a placeholder when not exported)
+ */
+const exportValue = (record: Record, field: Field, withImages: boolean): unknown => {
+  const value = record.values[field.name];
+  if (value === null || value === undefined) return null;
+
+  if (isImage(value)) {
+    const image = parseImage(value);
+    return withImages && image ? imagePath(record, field, image.extension) : '[image]';
+  }
+
+  return value;
+};
+
+/**
+ * Value for a CSV cell: numbers are written with their field's decimal places, without grouping or unit,
+ * and barcodes as their decoded text
+ */
+const csvValue = (record: Record, field: Field, withImages: boolean): unknown => {
+  const value = exportValue(record, field, withImages);
+  if (isBarcodeValue(value)) return value.text;
+  return field.is_num && typeof value === 'number' ? toPlainNumber(value, field.config ?? undefined) : value;
+};
+
+/**
+ * Quote a CSV cell when it contains separators, quotes or line breaks (RFC 4180)
+ * Text a spreadsheet would run as a formula gets a leading apostrophe; numbers such as -5 and locations are kept
+ */
+const csvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  const raw = Array.isArray(value) ? value.join('; ') : String(value);
+  const text = isLocation(value)
+    ? `${value.lat}, ${value.lng}`
+    : /^[=+\-@\t\r]/.test(raw) && !/^-\d+(\.\d+)?(e[-+]?\d+)?$/i.test(raw)
+      ? `'${raw}`
+      : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per record, one column per field (in form order)
+ */
+export const toCSV = (records: Record[], fields: Field[], withImages: boolean): string => {
+  const header = ['id', ...fields.map(field => field.name)].map(csvCell).join(',');
+
+  const rows = records.map(record =>
+    [record.id, ...fields.map(field => csvValue(record, field, withImages))].map(csvCell).join(',')
+  );
+
+  return [header, ...rows].join('\r\n');
+};
+
+/**
+ * Form metadata, the field schema and every record
+ */
+export const toJSON = (form: Form, records: Record[], fields: Field[], withImages: boolean): string => {
+  const data = {
+    form: { id: form.id, name: form.name, description: form.description },
+    fields: fields.map(({ name, field_type, options, required, is_num, config }) => ({
+      name,
+      field_type,
+      options,
+      required,
+      is_num,
+      config,
+    })),
+    exportedAt: new Date().toISOString(),
+    records: records.map(record => ({
+      id: record.id,
+      values: Object.fromEntries(fields.map(field => [field.name, exportValue(record, field, withImages)])),
+    })),
+  };
+
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * A FeatureCollection with one Point per record and location field
+ * The other field values become the feature's properties
+ */
+export const toGeoJSON = (records: Record[], fields: Field[], withImages: boolean): string => {
+  const locationFields = fields.filter(field => field.field_type === 'location');
+  const propertyFields = fields.filter(field => field.field_type !== 'location');
+
+  const features = records.flatMap(record =>
+    locationFields
+      .map(field => ({ field, location: record.values[field.name] }))
+      .filter((entry): entry is { field: Field; location: LocationValue } => isLocation(entry.location))
+      .map(({ field, location }) => ({
+        type: 'Feature',
+        geometry: {
+          // GeoJSON positions are [longitude, latitude]
+          type: 'Point',
+          coordinates: [location.lng, location.lat],
+        },
+        properties: {
+          record_id: record.id,
+          location_field: field.name,
+          ...Object.fromEntries(
+            propertyFields.map(property => [property.name, exportValue(record, property, withImages)])
+          ),
+        },
+      }))
+  );
+
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+/**
+ * Serialise records in the chosen format
+ */
+export const formatRecords = (
+  format: ExportFormat,
+  form: Form,
+  records: Record[],
+  fields: Field[],
+  withImages: boolean
+): string => {
+  switch (format) {
+    case 'csv':
+      return toCSV(records, fields, withImages);
+    case 'json':
+      return toJSON(form, records, fields, withImages);
+    case 'geojson':
+      return toGeoJSON(records, fields, withImages);
+  }
+};
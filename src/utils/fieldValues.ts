@@ -0,0 +1,37 @@
+/**
+ * Display of stored record values according to their field's type
+ */
+
+import { Field, RecordValues } from '../types';
+import { isLocationValue } from './geo';
+import { formatTemporal, isTemporalType } from './dates';
+import { formatNumber } from './numbers';
+import { isBarcodeValue } from './barcodes';
+
+/**
+ * A yes/no answer as a check or cross
+ */
+export const formatBoolean = (value: boolean): string => (value ? '✓ Yes' : '✗ No');
+
+/**
+ * Text shown for a value in record lists; values of unknown fields are shown as they are stored
+ */
+export const formatFieldValue = (value: RecordValues[string] | undefined, field?: Field): string => {
+  if (value === null || value === undefined) return 'N/A';
+
+  if (typeof value === 'boolean') return formatBoolean(value);
+
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'N/A';
+
+  if (isBarcodeValue(value)) return value.symbology ? `${value.text} (${value.symbology})` : value.text;
+
+  if (isLocationValue(value)) return `${value.lat.toFixed(6)}, ${value.lng.toFixed(6)}`;
+
+  if (field?.is_num && typeof value === 'number') return formatNumber(value, field.config ?? undefined);
+
+  if (field && typeof value === 'string' && isTemporalType(field.field_type)) {
+    return formatTemporal(value, field.field_type);
+  }
+
+  return String(value);
+};
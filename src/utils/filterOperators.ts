@@ -0,0 +1,166 @@
+/**
+ * Filter operators and which of them fit each field type
+ */
+
+import { Field, FilterCriteria, FilterOperator } from '../types';
+import { isTemporalType, parseTemporal, TEMPORAL_FORMATS } from './dates';
+
+/**
+ * What a filter needs besides the field and operator
+ * - none: nothing (is empty / is not empty, is yes / is no)
+ * - single: one value
+ * - list: any number of values
+ * - range: [min, max]
+ * - radius: [lat, lng, radius in km]
+ * - bbox: [south, west, north, east]
+ */
+export type OperandKind = 'none' | 'single' | 'list' | 'range' | 'radius' | 'bbox';
+
+export const FILTER_OPERATORS: { [operator in FilterOperator]: { label: string; operands: OperandKind } } = {
+  ilike: { label: 'Contains', operands: 'single' },
+  like: { label: 'Starts With', operands: 'single' },
+  endswith: { label: 'Ends With', operands: 'single' },
+  eq: { label: 'Equals', operands: 'single' },
+  neq: { label: 'Not Equal', operands: 'single' },
+  gt: { label: 'Greater Than', operands: 'single' },
+  lt: { label: 'Less Than', operands: 'single' },
+  gte: { label: 'Greater or Equal', operands: 'single' },
+  lte: { label: 'Less or Equal', operands: 'single' },
+  between: { label: 'Between', operands: 'range' },
+  in: { label: 'Is Any Of', operands: 'list' },
+  hasany: { label: 'Has Any Of', operands: 'list' },
+  hasall: { label: 'Has All Of', operands: 'list' },
+  istrue: { label: 'Is Yes', operands: 'none' },
+  isfalse: { label: 'Is No', operands: 'none' },
+  within: { label: 'Within Radius', operands: 'radius' },
+  bbox: { label: 'Inside Area', operands: 'bbox' },
+  empty: { label: 'Is Empty', operands: 'none' },
+  notempty: { label: 'Is Not Empty', operands: 'none' },
+};
+
+/** Labels of the inputs for each multi-value operand kind */
+export const OPERAND_LABELS: { [kind in OperandKind]: string[] } = {
+  none: [],
+  single: ['Value'],
+  list: ['Values'],
+  range: ['Min', 'Max'],
+  radius: ['Latitude', 'Longitude', 'Radius (km)'],
+  bbox: ['South', 'West', 'North', 'East'],
+};
+
+const TEXT_OPERATORS: FilterOperator[] = ['ilike', 'like', 'endswith', 'eq', 'neq', 'in', 'empty', 'notempty'];
+const NUMBER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'empty', 'notempty'];
+const CHOICE_OPERATORS: FilterOperator[] = ['eq', 'neq', 'in', 'empty', 'notempty'];
+const CHECKBOX_OPERATORS: FilterOperator[] = ['hasany', 'hasall', 'empty', 'notempty'];
+const BOOLEAN_OPERATORS: FilterOperator[] = ['istrue', 'isfalse', 'empty', 'notempty'];
+const BARCODE_OPERATORS: FilterOperator[] = ['eq', 'like', 'ilike', 'endswith', 'neq', 'in', 'empty', 'notempty'];
+const LOCATION_OPERATORS: FilterOperator[] = ['within', 'bbox', 'empty', 'notempty'];
+const IMAGE_OPERATORS: FilterOperator[] = ['empty', 'notempty'];
+const DATE_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'between', 'empty', 'notempty'];
+
+/** Wording of the comparisons for dates and times */
+const DATE_LABELS: Partial<{ [operator in FilterOperator]: string }> = {
+  eq: 'On',
+  neq: 'Not On',
+  gt: 'After',
+  gte: 'On or After',
+  lt: 'Before',
+  lte: 'On or Before',
+};
+
+/**
+ * Operators that make sense for a field; unknown fields get the text operators
+ */
+export const getOperatorsForField = (field?: Field): FilterOperator[] => {
+  if (!field) return TEXT_OPERATORS;
+  if (field.field_type === 'location') return LOCATION_OPERATORS;
+  if (field.field_type === 'image') return IMAGE_OPERATORS;
+  if (field.field_type === 'multiple choice') return CHOICE_OPERATORS;
+  if (field.field_type === 'checkboxes') return CHECKBOX_OPERATORS;
+  if (field.field_type === 'boolean') return BOOLEAN_OPERATORS;
+  if (field.field_type === 'barcode') return BARCODE_OPERATORS;
+  if (isTemporalType(field.field_type)) return DATE_OPERATORS;
+  if (field.is_num) return NUMBER_OPERATORS;
+  return TEXT_OPERATORS;
+};
+
+/**
+ * Label of an operator, worded for the field's type
+ */
+export const getOperatorLabel = (operator: FilterOperator, field?: Field): string =>
+  (isTemporalType(field?.field_type) && DATE_LABELS[operator]) || FILTER_OPERATORS[operator].label;
+
+/**
+ * A new condition on a field, using the first operator that fits it
+ */
+export const createCondition = (field: Field): FilterCriteria => {
+  const operator = getOperatorsForField(field)[0];
+  return { field: field.name, operator, fieldType: field.field_type, ...emptyOperands(operator) };
+};
+
+/**
+ * Operands to start from when switching to an operator
+ */
+export const emptyOperands = (operator: FilterOperator): Pick<FilterCriteria, 'value' | 'values'> => {
+  const kind = FILTER_OPERATORS[operator].operands;
+  if (kind === 'none' || kind === 'single') return { value: '', values: undefined };
+  if (kind === 'list') return { value: '', values: [] };
+  return { value: '', values: OPERAND_LABELS[kind].map(() => '') };
+};
+
+const isNumber = (text: string | undefined): boolean => !!text && text.trim() !== '' && !isNaN(Number(text));
+
+/**
+ * What is wrong with a condition's operands, or null if it can be sent to the server
+ * Checks shape only; whether a value suits the field's type is left to isConditionComplete
+ */
+export const describeFilterProblem = (filter: FilterCriteria): string | null => {
+  const definition = FILTER_OPERATORS[filter.operator];
+  if (!definition) return `unknown operator "${filter.operator}"`;
+  if (!filter.field || !filter.field.trim()) return 'no field selected';
+  if (filter.field.includes('"')) return 'field names with double quotes can\'t be filtered';
+
+  const values = filter.values ?? [];
+  const numbers = values.map(Number);
+
+  if (isTemporalType(filter.fieldType) && (definition.operands === 'single' || definition.operands === 'range')) {
+    const type = filter.fieldType;
+    const format = TEMPORAL_FORMATS[type];
+    if (definition.operands === 'single') {
+      if ((filter.value ?? '').trim() === '') return 'value is missing';
+      return parseTemporal(filter.value, type) ? null : `value must be written as ${format}`;
+    }
+    const dates = values.map(value => parseTemporal(value ?? '', type));
+    if (values.length !== 2 || dates.some(date => !date)) return `from and to must be written as ${format}`;
+    return dates[0]! > dates[1]! ? 'from is later than to' : null;
+  }
+
+  switch (definition.operands) {
+    case 'none':
+      return null;
+    case 'single':
+      return (filter.value ?? '').trim() === '' ? 'value is missing' : null;
+    case 'list':
+      return values.some(value => value.trim() !== '') ? null : 'at least one value is needed';
+    case 'range':
+      if (values.length !== 2 || !values.every(isNumber)) return 'min and max must be numbers';
+      return numbers[0] > numbers[1] ? 'min is greater than max' : null;
+    case 'radius':
+      if (values.length !== 3 || !values.every(isNumber)) return 'latitude, longitude and radius must be numbers';
+      if (Math.abs(numbers[0]) > 90 || Math.abs(numbers[1]) > 180) return 'centre is not a valid location';
+      return numbers[2] > 0 ? null : 'radius must be greater than 0';
+    case 'bbox':
+      if (values.length !== 4 || !values.every(isNumber)) return 'south, west, north and east must be numbers';
+      if (numbers[0] > numbers[2]) return 'south must not be greater than north';
+      return Math.abs(numbers[0]) > 90 || Math.abs(numbers[2]) > 90 ? 'latitudes must be between -90 and 90' : null;
+  }
+};
+
+/**
+ * Whether a condition has every operand its operator needs
+ */
+export const isConditionComplete = (filter: FilterCriteria, field?: Field): boolean => {
+  if (describeFilterProblem(filter)) return false;
+  if (field?.is_num && FILTER_OPERATORS[filter.operator].operands === 'single') return isNumber(filter.value);
+  return true;
+};
@@ -0,0 +1,115 @@
+/**
+ * Helpers for the filter tree model (FilterGroup / FilterCriteria)
+ * All updates are immutable so the tree can live directly in React state
+ */
+
+import { FilterCriteria, FilterGroup, FilterNode, RecordFilters } from '../types';
+
+/**
+ * Position of a node in the tree: child indexes from the root group
+ */
+export type FilterPath = number[];
+
+export const isFilterGroup = (node: FilterNode): node is FilterGroup => 'children' in node;
+
+export const emptyFilterGroup = (logic: FilterGroup['logic'] = 'and'): FilterGroup => ({ logic, children: [] });
+
+/**
+ * Convert a flat filter list into a tree
+ * Consecutive filters joined with OR become one OR group; the groups are joined with AND,
+ * matching how flat lists have always been interpreted
+ */
+export const toFilterGroup = (filters: RecordFilters): FilterGroup => {
+  if (!Array.isArray(filters)) return filters;
+
+  const root = emptyFilterGroup('and');
+  let orGroup: FilterCriteria[] = [];
+
+  filters.forEach((filter, index) => {
+    const { logic, ...condition } = filter;
+    orGroup.push(condition);
+
+    if (logic === 'or' && index < filters.length - 1) return;
+
+    root.children.push(orGroup.length === 1 ? orGroup[0] : { logic: 'or', children: orGroup });
+    orGroup = [];
+  });
+
+  return root;
+};
+
+/**
+ * All conditions in a tree, depth first
+ */
+export const getConditions = (filters: RecordFilters | FilterNode): FilterCriteria[] => {
+  if (Array.isArray(filters)) return filters;
+  if (!isFilterGroup(filters)) return [filters];
+  return filters.children.flatMap(getConditions);
+};
+
+/**
+ * Conditions every matching record must meet:
+ * those reached from the root through groups that aren't negated and don't offer alternatives
+ */
+export const getRequiredConditions = (group: FilterGroup): FilterCriteria[] => {
+  if (group.negate || (group.logic === 'or' && group.children.length > 1)) return [];
+
+  return group.children.flatMap(child => {
+    if (isFilterGroup(child)) return getRequiredConditions(child);
+    return child.negate ? [] : [child];
+  });
+};
+
+/**
+ * Whether any condition is set (empty groups don't count)
+ */
+export const hasFilters = (filters?: RecordFilters): filters is RecordFilters =>
+  !!filters && getConditions(filters).length > 0;
+
+/**
+ * Filters matching records that meet all of the given ones; undefined when none has conditions
+ */
+export const combineFilters = (...filters: (RecordFilters | undefined)[]): RecordFilters | undefined => {
+  const groups = filters.filter(hasFilters).map(toFilterGroup);
+  if (groups.length <= 1) return groups[0];
+  return { logic: 'and', children: groups };
+};
+
+/**
+ * Replace the node at a path with the result of the updater
+ */
+export const updateNode = (root: FilterGroup, path: FilterPath, update: (node: FilterNode) => FilterNode): FilterGroup => {
+  if (path.length === 0) {
+    const updated = update(root);
+    return isFilterGroup(updated) ? updated : root;
+  }
+
+  const [index, ...rest] = path;
+  return {
+    ...root,
+    children: root.children.map((child, i) => {
+      if (i !== index) return child;
+      if (rest.length === 0) return update(child);
+      return isFilterGroup(child) ? updateNode(child, rest, update) : child;
+    }),
+  };
+};
+
+/**
+ * Append a node to the group at a path
+ */
+export const addNode = (root: FilterGroup, path: FilterPath, node: FilterNode): FilterGroup =>
+  updateNode(root, path, group => (isFilterGroup(group) ? { ...group, children: [...group.children, node] } : group));
+
+/**
+ * Remove the node at a path (the root itself can't be removed)
+ */
+export const removeNode = (root: FilterGroup, path: FilterPath): FilterGroup => {
+  if (path.length === 0) return root;
+
+  const parentPath = path.slice(0, -1);
+  const index = path[path.length - 1];
+  return updateNode(root, parentPath, group =>
+    isFilterGroup(group) ? { ...group, children: group.children.filter((_, i) => i !== index) } : group
+  );
+};
@@ -0,0 +1,39 @@
+/**
+ * Distance and area helpers for location values
+ */
+
+import { LocationValue } from '../types';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export const isLocationValue = (value: unknown): value is LocationValue =>
+  typeof value === 'object' && value !== null && 'lat' in value && 'lng' in value;
+
+/**
+ * Great-circle distance between two points in kilometres (haversine formula)
+ */
+export const distanceKm = (a: LocationValue, b: LocationValue): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Smallest latitude/longitude box containing a circle, as [south, west, north, east]
+ * The server can only compare coordinates, so radius filters are sent as this box
+ */
+export const radiusToBoundingBox = (center: LocationValue, radiusKm: number): [number, number, number, number] => {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(center.lat)), 0.01);
+
+  return [
+    Math.max(center.lat - latDelta, -90),
+    Math.max(center.lng - lngDelta, -180),
+    Math.min(center.lat + latDelta, 90),
+    Math.min(center.lng + lngDelta, 180),
+  ];
+};
@@ -0,0 +1,202 @@
+/**
+ * CSV parsing and conversion of rows into record values
+ * Pure functions so the dry run and the import use exactly the same rules
+ */
+
+import { Field, RecordValues, LocationValue } from '../types';
+import { validateRecordValues, toRecordValues } from './recordValidation';
+import { isTemporalType, normalizeTemporal, TEMPORAL_FORMATS } from './dates';
+
+/**
+ * Field name for each CSV column, or null when the column is skipped
+ */
+export type ColumnMapping = (string | null)[];
+
+export interface ImportRow {
+  /** Row number in the file, counting the header as row 1 */
+  row: number;
+  /** Values ready to insert */
+  values: RecordValues;
+  /** One message per invalid field; empty when the row can be imported */
+  errors: string[];
+}
+
+/**
+ * Parse CSV text into rows of cells (RFC 4180: quoted cells, escaped quotes, embedded line breaks)
+ */
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  // Strip the byte order mark spreadsheet apps like to add
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * Whether a field's values can come from a CSV cell
+ * Images are stored as base64 data and can't be imported from a spreadsheet
+ */
+export const isImportable = (field: Field): boolean => field.field_type !== 'image';
+
+const normalizeName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Match CSV headers to fields by name, ignoring case, spaces and punctuation
+ * Each field is matched at most once
+ */
+export const autoMatchColumns = (headers: string[], fields: Field[]): ColumnMapping => {
+  const used = new Set<string>();
+
+  return headers.map(header => {
+    const match = fields.find(
+      field => isImportable(field) && !used.has(field.name) && normalizeName(field.name) === normalizeName(header)
+    );
+    if (!match) return null;
+    used.add(match.name);
+    return match.name;
+  });
+};
+
+/**
+ * Parse "lat, lng" (as written by the CSV export) into a location
+ */
+const parseLocation = (text: string): LocationValue | null => {
+  const parts = text.split(/[,;\s]+/).filter(Boolean).map(Number);
+  if (parts.length !== 2 || parts.some(isNaN)) return null;
+
+  const [lat, lng] = parts;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+};
+
+/**
+ * Read a yes/no answer written as yes/no, true/false, y/n or 1/0
+ */
+const parseBoolean = (text: string): boolean | null => {
+  const answer = text.toLowerCase();
+  if (['yes', 'true', 'y', '1'].includes(answer)) return true;
+  if (['no', 'false', 'n', '0'].includes(answer)) return false;
+  return null;
+};
+
+/**
+ * Read the options of a checkboxes answer, separated by semicolons as written by the CSV export
+ * A cell that is exactly one of the options is taken whole, so options containing ";" still import
+ */
+const parseSelection = (text: string, field: Field): string[] => {
+  if (field.options?.includes(text)) return [text];
+  return text.split(';').map(option => option.trim()).filter(Boolean);
+};
+
+/**
+ * Convert the data rows of a CSV file into record values and validate them
+ * Uses the same rules as the record form, so required fields that aren't mapped fail every row
+ */
+export const buildImportRows = (rows: string[][], mapping: ColumnMapping, fields: Field[]): ImportRow[] =>
+  rows.map((cells, index) => {
+    const values: RecordValues = {};
+    const errors: string[] = [];
+    const invalid = new Set<string>();
+
+    mapping.forEach((fieldName, column) => {
+      const field = fields.find(f => f.name === fieldName);
+      const text = (cells[column] ?? '').trim();
+      if (!field || text === '') return;
+
+      if (field.field_type === 'location') {
+        const location = parseLocation(text);
+        if (location) {
+          values[field.name] = location;
+        } else {
+          invalid.add(field.name);
+          errors.push(`${field.name}: "${text}" is not a "lat, lng" location`);
+        }
+        return;
+      }
+
+      // A number may carry the field's unit, e.g. "12 kg" as typed in a spreadsheet
+      if (field.field_type === 'number' && field.config?.unit && text.endsWith(field.config.unit)) {
+        values[field.name] = text.slice(0, -field.config.unit.length).trim();
+        return;
+      }
+
+      if (field.field_type === 'barcode') {
+        values[field.name] = { text };
+        return;
+      }
+
+      if (field.field_type === 'boolean') {
+        const answer = parseBoolean(text);
+        if (answer !== null) {
+          values[field.name] = answer;
+        } else {
+          invalid.add(field.name);
+          errors.push(`${field.name}: "${text}" is not yes or no`);
+        }
+        return;
+      }
+
+      if (field.field_type === 'checkboxes') {
+        values[field.name] = parseSelection(text, field);
+        return;
+      }
+
+      if (isTemporalType(field.field_type)) {
+        const value = normalizeTemporal(text, field.field_type);
+        if (value) {
+          values[field.name] = value;
+        } else {
+          invalid.add(field.name);
+          errors.push(`${field.name}: "${text}" is not a ${TEMPORAL_FORMATS[field.field_type]} value`);
+        }
+        return;
+      }
+
+      values[field.name] = text;
+    });
+
+    Object.entries(validateRecordValues(fields, values)).forEach(([fieldName, message]) => {
+      if (invalid.has(fieldName)) return;
+      errors.push(message.startsWith(fieldName) ? message : `${fieldName}: ${message}`);
+    });
+
+    return { row: index + 2, values: toRecordValues(fields, values), errors };
+  });
@@ -0,0 +1,80 @@
+/**
+ * Helpers for number field values: strict parsing, limits and formatting
+ */
+
+import { FieldConfig } from '../types';
+
+/** Plain decimal notation, e.g. "12", "-0.5", ".25"; no exponents, units or stray characters */
+const NUMBER_PATTERN = /^[-+]?(\d+(\.\d*)?|\.\d+)$/;
+
+/**
+ * Read a typed number; null unless the whole text is a number, so "12abc" is rejected
+ */
+export const parseNumber = (text: string): number | null => {
+  const trimmed = text.trim();
+  return NUMBER_PATTERN.test(trimmed) ? Number(trimmed) : null;
+};
+
+/**
+ * What is wrong with a number, typed or stored, for a field's settings, or null if it is acceptable
+ */
+export const describeNumberProblem = (input: string | number, config: FieldConfig = {}): string | null => {
+  const value = typeof input === 'number' ? input : parseNumber(input);
+  if (value === null || !isFinite(value)) return 'Must be a valid number';
+
+  const { min, max, decimals, step } = config;
+  if (decimals === 0 && !Number.isInteger(value)) return 'Must be a whole number';
+  if (decimals !== undefined && roundNumber(value, decimals) !== value) {
+    return `Use at most ${decimals} decimal ${decimals === 1 ? 'place' : 'places'}`;
+  }
+  if (min !== undefined && value < min) return `Must be at least ${formatNumber(min, config)}`;
+  if (max !== undefined && value > max) return `Must be at most ${formatNumber(max, config)}`;
+  if (step && !isOnStep(value, step, min ?? 0)) {
+    return `Must be in steps of ${formatNumber(step, { ...config, unit: undefined })}`;
+  }
+  return null;
+};
+
+/**
+ * Whether a value is a whole number of steps from the base, allowing for floating point error
+ */
+const isOnStep = (value: number, step: number, base: number): boolean => {
+  const steps = (value - base) / step;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+};
+
+/**
+ * A value moved by one step and kept within the field's limits
+ */
+export const stepNumber = (value: number, direction: 1 | -1, config: FieldConfig = {}): number => {
+  const step = config.step || 1;
+  // Round away floating point error, e.g. 0.1 + 0.2
+  const next = roundNumber(value + direction * step, config.decimals ?? 10);
+  return clampNumber(next, config);
+};
+
+export const clampNumber = (value: number, { min, max }: FieldConfig = {}): number =>
+  Math.min(max ?? Infinity, Math.max(min ?? -Infinity, value));
+
+export const roundNumber = (value: number, decimals: number): number =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * A value as written in exports and inputs: no grouping, and the field's decimal places when it has them
+ */
+export const toPlainNumber = (value: number, config: FieldConfig = {}): string =>
+  config.decimals !== undefined ? value.toFixed(config.decimals) : String(value);
+
+/**
+ * A value for display in the device's locale, with the field's decimal places and unit, e.g. "1,250.50 kg"
+ */
+export const formatNumber = (value: number, config: FieldConfig = {}): string => {
+  const { decimals, unit } = config;
+  const text = value.toLocaleString(
+    undefined,
+    decimals !== undefined
+      ? { minimumFractionDigits: decimals, maximumFractionDigits: decimals }
+      : { maximumFractionDigits: 10 }
+  );
+  return unit ? `${text} ${unit}` : text;
+};
@@ -0,0 +1,311 @@
+/**
+ * Client-side query engine for records
+ * Evaluates filters and sorts the same way PostgREST does for the queries built in
+ * services/api.ts, so cached records can be searched offline with the same results
+ */
+
+import { FilterCriteria, FilterNode, Record, RecordFilters, RecordSort, RecordValues } from '../types';
+import { getConditions, getRequiredConditions, isFilterGroup, toFilterGroup } from './filterTree';
+import { FILTER_OPERATORS, describeFilterProblem } from './filterOperators';
+import { distanceKm, isLocationValue, radiusToBoundingBox } from './geo';
+import { DEFAULT_SORT } from './recordSort';
+import { isTemporalType, temporalComparisons } from './dates';
+import { isBarcodeValue } from './barcodes';
+import { ValidationError } from './errors';
+
+/**
+ * Result of a condition in SQL's three-valued logic
+ * null ("unknown") comes from comparing a missing value; such records never match,
+ * not even when the condition is negated
+ */
+type Truth = boolean | null;
+
+type JsonValue = RecordValues[string] | boolean;
+
+const negate = (truth: Truth): Truth => (truth === null ? null : !truth);
+
+const allOf = (truths: Truth[]): Truth =>
+  truths.includes(false) ? false : truths.includes(null) ? null : true;
+
+const anyOf = (truths: Truth[]): Truth =>
+  truths.includes(true) ? true : truths.includes(null) ? null : false;
+
+const isNumeric = (value: string): boolean => value.trim() !== '' && !isNaN(Number(value));
+
+/**
+ * A value as extracted with ->> (text), or null when the key is missing or null
+ */
+const toText = (value: JsonValue | undefined): string | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Rank of each JSON type in Postgres jsonb ordering:
+ * Object > Array > Boolean > Number > String > Null
+ */
+const jsonTypeRank = (value: JsonValue): number => {
+  if (value === null) return 0;
+  if (typeof value === 'string') return 1;
+  if (typeof value === 'number') return 2;
+  if (typeof value === 'boolean') return 3;
+  return Array.isArray(value) ? 4 : 5;
+};
+
+const compareText = (a: string, b: string): number => a.localeCompare(b);
+
+/**
+ * Compare two JSON values the way jsonb does; values of different types compare by type
+ */
+const compareJson = (a: JsonValue, b: JsonValue): number => {
+  const rankDifference = jsonTypeRank(a) - jsonTypeRank(b);
+  if (rankDifference !== 0) return Math.sign(rankDifference);
+  if (typeof a === 'number' && typeof b === 'number') return Math.sign(a - b);
+  if (typeof a === 'string' && typeof b === 'string') return compareText(a, b);
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return compareText(JSON.stringify(a), JSON.stringify(b));
+};
+
+const compare = (difference: number | null, operator: string): Truth => {
+  if (difference === null) return null;
+  switch (operator) {
+    case 'gt':
+      return difference > 0;
+    case 'gte':
+      return difference >= 0;
+    case 'lt':
+      return difference < 0;
+    default:
+      return difference <= 0;
+  }
+};
+
+/**
+ * Regular expression source matching user input the way the escaped LIKE patterns do:
+ * everything is literal except *, which matches any single character
+ */
+export const toLikePattern = (value: string): string =>
+  value
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('[\\s\\S]');
+
+const matchesLike = (text: string, value: string, anchor: 'contains' | 'start' | 'end', ignoreCase: boolean): boolean => {
+  const pattern = toLikePattern(value);
+  const source = anchor === 'start' ? `^${pattern}` : anchor === 'end' ? `${pattern}$` : pattern;
+  return new RegExp(source, ignoreCase ? 'i' : '').test(text);
+};
+
+/**
+ * Coordinate of a location value as extracted with ->lat / ->lng
+ */
+const coordinate = (value: JsonValue | undefined, key: 'lat' | 'lng'): JsonValue | undefined =>
+  isLocationValue(value) ? value[key] : undefined;
+
+/**
+ * Whether a location lies inside [south, west, north, east], comparing coordinates like the server
+ */
+const insideArea = (value: JsonValue | undefined, [south, west, north, east]: number[]): Truth => {
+  const lat = coordinate(value, 'lat');
+  const lng = coordinate(value, 'lng');
+  if (lat === undefined || lng === undefined) return null;
+  return allOf([
+    compareJson(lat, south) >= 0,
+    compareJson(lat, north) <= 0,
+    compareJson(lng, west) >= 0,
+    compareJson(lng, east) <= 0,
+  ]);
+};
+
+/**
+ * The value a condition looks at: a barcode's decoded text (as ->text extracts it), or the field's value
+ */
+const conditionValue = (filter: FilterCriteria, record: Record): JsonValue | undefined => {
+  const value = record.values[filter.field];
+  if (filter.fieldType !== 'barcode') return value;
+  return isBarcodeValue(value) ? value.text : undefined;
+};
+
+const evaluateCondition = (filter: FilterCriteria, record: Record): Truth => {
+  const raw = conditionValue(filter, record);
+  const text = toText(raw);
+  const value = filter.value.trim();
+  const values = (filter.values ?? []).map(v => v.trim()).filter(Boolean);
+
+  // Dates and times compare their stored ISO 8601 text, as the server does
+  const comparisons = isTemporalType(filter.fieldType) ? temporalComparisons(filter, filter.fieldType) : null;
+  if (comparisons) {
+    const result = allOf(comparisons.map(({ operator, value }) =>
+      compare(text === null ? null : compareText(text, value), operator)
+    ));
+    const negated = filter.operator === 'neq' ? !filter.negate : filter.negate;
+    return negated ? negate(result) : result;
+  }
+
+  let result: Truth;
+  switch (filter.operator) {
+    case 'ilike':
+      result = text === null ? null : matchesLike(text, value, 'contains', true);
+      break;
+    case 'like':
+      result = text === null ? null : matchesLike(text, value, 'start', false);
+      break;
+    case 'endswith':
+      result = text === null ? null : matchesLike(text, value, 'end', false);
+      break;
+    case 'gt':
+    case 'lt':
+    case 'gte':
+    case 'lte':
+      // Numbers compare as JSON values; anything else compares as text
+      if (isNumeric(value)) {
+        result = compare(raw === undefined ? null : compareJson(raw, Number(value)), filter.operator);
+      } else {
+        result = compare(text === null ? null : compareText(text, value), filter.operator);
+      }
+      break;
+    case 'empty':
+      result = text === null;
+      break;
+    case 'notempty':
+      result = text !== null;
+      break;
+    case 'in':
+      result = text === null ? null : values.includes(text);
+      break;
+    case 'istrue':
+      result = raw === undefined ? null : raw === true;
+      break;
+    case 'isfalse':
+      result = raw === undefined ? null : raw === false;
+      break;
+    case 'hasall':
+      result = raw === undefined ? null : Array.isArray(raw) && values.every(option => raw.includes(option));
+      break;
+    case 'hasany':
+      result = raw === undefined ? null : Array.isArray(raw) && values.some(option => raw.includes(option));
+      break;
+    case 'between':
+      result = raw === undefined
+        ? null
+        : compareJson(raw, Number(values[0])) >= 0 && compareJson(raw, Number(values[1])) <= 0;
+      break;
+    case 'within': {
+      const [lat, lng, radius] = values.map(Number);
+      result = insideArea(raw, radiusToBoundingBox({ lat, lng }, radius));
+      break;
+    }
+    case 'bbox':
+      result = insideArea(raw, values.map(Number));
+      break;
+    case 'neq':
+      result = text === null ? null : text !== value;
+      break;
+    default:
+      result = text === null ? null : text === value;
+  }
+
+  return filter.negate ? negate(result) : result;
+};
+
+/**
+ * Evaluate a filter node; undefined for groups without conditions, which the server ignores
+ */
+const evaluateNode = (node: FilterNode, record: Record): Truth | undefined => {
+  if (!isFilterGroup(node)) return evaluateCondition(node, record);
+
+  const results = node.children
+    .map(child => evaluateNode(child, record))
+    .filter((result): result is Truth => result !== undefined);
+  if (results.length === 0) return undefined;
+
+  const result = node.logic === 'or' ? anyOf(results) : allOf(results);
+  return node.negate ? negate(result) : result;
+};
+
+/**
+ * Check every condition before running a query, numbering them in the order the builder shows them
+ *
+ * @throws ValidationError listing each malformed filter
+ */
+export const validateFilters = (filters: RecordFilters): void => {
+  const problems: { [filter: string]: string } = {};
+
+  getConditions(filters).forEach((filter, index) => {
+    const problem = describeFilterProblem(filter);
+    if (problem) {
+      const label = FILTER_OPERATORS[filter.operator]?.label ?? filter.operator;
+      problems[`Filter ${index + 1} (${filter.field || 'no field'} ${label})`] = problem;
+    }
+  });
+
+  const entries = Object.entries(problems);
+  if (entries.length > 0) {
+    const list = entries.map(([filter, problem]) => `${filter}: ${problem}`).join('\n');
+    throw new ValidationError(`Please fix these filters:\n${list}`, problems);
+  }
+};
+
+/**
+ * Drop records outside the radius of radius filters every match must meet
+ * Radius filters are first matched against the enclosing box, as the server does
+ */
+export const applyRadiusFilters = (records: Record[], filters: RecordFilters): Record[] => {
+  const radiusFilters = getRequiredConditions(toFilterGroup(filters)).filter(f => f.operator === 'within');
+  if (radiusFilters.length === 0) return records;
+
+  return records.filter(record =>
+    radiusFilters.every(filter => {
+      const value = record.values[filter.field];
+      const [lat, lng, radius] = (filter.values ?? []).map(Number);
+      return isLocationValue(value) && distanceKm(value, { lat, lng }) <= radius;
+    })
+  );
+};
+
+/**
+ * Records matching a filter tree (or flat filter list)
+ *
+ * @throws ValidationError if a filter is malformed
+ */
+export const filterRecords = (records: Record[], filters: RecordFilters): Record[] => {
+  validateFilters(filters);
+
+  const root = toFilterGroup(filters);
+  const matched = records.filter(record => {
+    const result = evaluateNode(root, record);
+    return result === undefined || result === true;
+  });
+  return applyRadiusFilters(matched, filters);
+};
+
+/**
+ * Sort records like the server: by id, or by a field with records lacking it last and id breaking ties
+ */
+export const sortRecords = (records: Record[], sort: RecordSort = DEFAULT_SORT): Record[] => {
+  const direction = sort.direction === 'desc' ? -1 : 1;
+  const field = sort.field;
+
+  const compareValues = (a: Record, b: Record): number => {
+    if (!field) return 0;
+    // Numeric sorts read the JSON value (->), where null is a value; text sorts read ->>
+    const x = sort.numeric ? a.values[field] : toText(a.values[field]);
+    const y = sort.numeric ? b.values[field] : toText(b.values[field]);
+    const xMissing = x === undefined || (!sort.numeric && x === null);
+    const yMissing = y === undefined || (!sort.numeric && y === null);
+    if (xMissing || yMissing) return xMissing === yMissing ? 0 : xMissing ? 1 : -1;
+    return direction * compareJson(x as JsonValue, y as JsonValue);
+  };
+
+  return [...records].sort((a, b) => compareValues(a, b) || direction * (a.id - b.id));
+};
+
+/**
+ * Filter and sort records without the server
+ *
+ * @throws ValidationError if a filter is malformed
+ */
+export const queryRecords = (records: Record[], filters?: RecordFilters, sort?: RecordSort): Record[] =>
+  sortRecords(filters ? filterRecords(records, filters) : records, sort);
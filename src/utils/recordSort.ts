@@ -0,0 +1,29 @@
+/**
+ * Helpers for sorting records by id or by a field's value
+ */
+
+import { Field, RecordSort } from '../types';
+
+export const DEFAULT_SORT: RecordSort = { direction: 'asc' };
+
+/**
+ * Whether records can be ordered by a field (locations, images, checkboxes and barcodes have no natural order)
+ */
+export const isSortableField = (field: Field): boolean =>
+  !['location', 'image', 'checkboxes', 'barcode'].includes(field.field_type);
+
+/**
+ * Sort by a field, comparing numerically when the field holds numbers
+ * Sorts by record id when no field is given
+ */
+export const sortByField = (field: Field | undefined, direction: RecordSort['direction']): RecordSort =>
+  field ? { field: field.name, direction, numeric: field.is_num } : { direction };
+
+/**
+ * Short description such as "Newest first" or "Age, high to low"
+ */
+export const describeSort = (sort: RecordSort): string => {
+  if (!sort.field) return sort.direction === 'desc' ? 'Newest first' : 'Oldest first';
+  if (sort.numeric) return `${sort.field}, ${sort.direction === 'desc' ? 'high to low' : 'low to high'}`;
+  return `${sort.field}, ${sort.direction === 'desc' ? 'Z to A' : 'A to Z'}`;
+};
@@ -0,0 +1,170 @@
+/**
+ * Record validation rules shared by the record form and CSV import
+ */
+
+import { Field, RecordValues } from '../types';
+import { formatTemporal, isTemporalType, parseTemporal } from './dates';
+import { describeNumberProblem, parseNumber } from './numbers';
+import { describeBarcodeProblem, isBarcodeValue } from './barcodes';
+
+export type ValidationErrors = { [fieldName: string]: string };
+
+/**
+ * Validate values against field requirements
+ * Checks required fields, text length, numbers, choice options and counts, yes/no answers, barcodes, dates, locations and images
+ *
+ * @returns Error message per invalid field; empty when everything is valid
+ */
+export const validateRecordValues = (fields: Field[], values: RecordValues): ValidationErrors => {
+  const errors: ValidationErrors = {};
+
+  fields.forEach((field) => {
+    const value = values[field.name];
+
+    // Required field validation
+    if (field.required) {
+      // false is an answer to a yes/no question
+      const missing =
+        value === undefined ||
+        value === null ||
+        (typeof value === 'string' && !value.trim()) ||
+        (Array.isArray(value) && value.length === 0);
+      if (missing) {
+        errors[field.name] = `${field.name} is required`;
+        return;
+      }
+    }
+
+    // Text field validations
+    if ((field.field_type === 'text' || field.field_type === 'multiline') && value && typeof value === 'string') {
+      if (value.trim().length < 1) {
+        errors[field.name] = 'Cannot be empty';
+        return;
+      }
+      if (value.length > 1000) {
+        errors[field.name] = 'Maximum 1000 characters allowed';
+        return;
+      }
+    }
+
+    // Numeric validation: the whole value must be a number within the field's limits
+    if (field.is_num && (typeof value === 'number' || (typeof value === 'string' && value.trim() !== ''))) {
+      const problem = describeNumberProblem(value, field.config ?? undefined);
+      if (problem) {
+        errors[field.name] = problem;
+        return;
+      }
+    }
+
+    // Multiple choice validation
+    if (field.field_type === 'multiple choice') {
+      if (field.required && !value) {
+        errors[field.name] = 'Please select an option';
+        return;
+      }
+      if (value && field.options && !field.options.includes(String(value))) {
+        errors[field.name] = `"${value}" is not one of the options`;
+        return;
+      }
+    }
+
+    // Checkboxes validation
+    if (field.field_type === 'checkboxes' && value) {
+      if (!Array.isArray(value)) {
+        errors[field.name] = 'Must be a list of options';
+        return;
+      }
+      const unknown = value.find(option => field.options && !field.options.includes(option));
+      if (unknown !== undefined) {
+        errors[field.name] = `"${unknown}" is not one of the options`;
+        return;
+      }
+      const { minSelected, maxSelected } = field.config ?? {};
+      if (value.length > 0 && minSelected && value.length < minSelected) {
+        errors[field.name] = `Select at least ${minSelected} ${minSelected === 1 ? 'option' : 'options'}`;
+        return;
+      }
+      if (maxSelected && value.length > maxSelected) {
+        errors[field.name] = `Select at most ${maxSelected} ${maxSelected === 1 ? 'option' : 'options'}`;
+        return;
+      }
+    }
+
+    // Barcode validation
+    if (field.field_type === 'barcode' && value) {
+      const problem = isBarcodeValue(value)
+        ? describeBarcodeProblem(value.text, field.config ?? undefined)
+        : 'Must be a scanned code';
+      if (problem) {
+        errors[field.name] = problem;
+        return;
+      }
+    }
+
+    // Yes/no validation
+    if (field.field_type === 'boolean' && value !== undefined && value !== null && typeof value !== 'boolean') {
+      errors[field.name] = 'Must be yes or no';
+      return;
+    }
+
+    // Date and time validation
+    if (isTemporalType(field.field_type) && value) {
+      const type = field.field_type;
+      const date = typeof value === 'string' ? parseTemporal(value, type) : null;
+      if (!date) {
+        errors[field.name] = `"${value}" is not a valid ${type === 'datetime' ? 'date and time' : type}`;
+        return;
+      }
+      const { minDate, maxDate } = field.config ?? {};
+      const min = minDate ? parseTemporal(minDate, type) : null;
+      const max = maxDate ? parseTemporal(maxDate, type) : null;
+      if (min && date < min) {
+        errors[field.name] = `Must not be before ${formatTemporal(minDate!, type)}`;
+        return;
+      }
+      if (max && date > max) {
+        errors[field.name] = `Must not be after ${formatTemporal(maxDate!, type)}`;
+        return;
+      }
+    }
+
+    // Location validation
+    if (field.field_type === 'location' && field.required && !value) {
+      errors[field.name] = 'Please capture location';
+      return;
+    }
+
+    // Image validation
+    if (field.field_type === 'image' && field.required && !value) {
+      errors[field.name] = 'Please add an image';
+      return;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Values ready to save: numeric fields parsed, empty values and selections dropped
+ */
+export const toRecordValues = (fields: Field[], values: RecordValues): RecordValues => {
+  const processed: RecordValues = {};
+
+  fields.forEach((field) => {
+    let value = values[field.name];
+
+    if (field.is_num && value && typeof value === 'string') {
+      value = parseNumber(value) ?? value;
+    }
+
+    if (Array.isArray(value) && value.length === 0) {
+      return;
+    }
+
+    if (value !== undefined && value !== null && value !== '') {
+      processed[field.name] = value;
+    }
+  });
+
+  return processed;
+};
@@ -0,0 +1,51 @@
+/**
+ * Helpers for showing where a search term matched inside a value
+ */
+
+import { toLikePattern } from './queryEngine';
+import { SEARCH_CONFIG } from '../constants/appConstants';
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Case-insensitive pattern for a term, with * matching any single character as in searches
+ */
+const termPattern = (term: string): RegExp => new RegExp(toLikePattern(term.trim()), 'gi');
+
+export const containsTerm = (text: string, term: string): boolean =>
+  term.trim() !== '' && termPattern(term).test(text);
+
+/**
+ * Part of a long text around the first match, with ellipses where it was cut
+ */
+export const getSnippet = (text: string, term: string, length: number = SEARCH_CONFIG.SNIPPET_LENGTH): string => {
+  const flat = text.replace(/\s+/g, ' ');
+  if (flat.length <= length) return flat;
+
+  const index = Math.max(flat.search(termPattern(term)), 0);
+  const start = Math.max(0, Math.min(index - Math.floor(length / 3), flat.length - length));
+  const end = start + length;
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end).trim()}${end < flat.length ? '…' : ''}`;
+};
+
+/**
+ * Split text into matching and non-matching segments for highlighting
+ */
+export const highlightSegments = (text: string, term: string): HighlightSegment[] => {
+  if (term.trim() === '') return [{ text, match: false }];
+
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const found of text.matchAll(termPattern(term))) {
+    const index = found.index ?? 0;
+    if (found[0] === '') continue;
+    if (index > last) segments.push({ text: text.slice(last, index), match: false });
+    segments.push({ text: found[0], match: true });
+    last = index + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};